@@ -0,0 +1,47 @@
+CREATE TABLE `file_chunks` (
+	`transfer_id` text NOT NULL,
+	`idx` integer NOT NULL,
+	`data` text NOT NULL,
+	`nonce` text NOT NULL,
+	PRIMARY KEY(`transfer_id`, `idx`),
+	FOREIGN KEY (`transfer_id`) REFERENCES `file_transfers`(`id`) ON UPDATE no action ON DELETE cascade
+);
+--> statement-breakpoint
+CREATE TABLE `file_transfers` (
+	`id` text PRIMARY KEY NOT NULL,
+	`sender_id` text NOT NULL,
+	`sender_name` text NOT NULL,
+	`file_name` text NOT NULL,
+	`file_size` integer NOT NULL,
+	`total_chunks` integer NOT NULL,
+	`recipients` text,
+	`created_at` integer NOT NULL,
+	`completed` integer NOT NULL
+);
+--> statement-breakpoint
+CREATE TABLE `key_updates` (
+	`id` integer PRIMARY KEY AUTOINCREMENT NOT NULL,
+	`target_user_id` text NOT NULL,
+	`data` text NOT NULL
+);
+--> statement-breakpoint
+CREATE INDEX `key_updates_target_idx` ON `key_updates` (`target_user_id`);--> statement-breakpoint
+CREATE TABLE `messages` (
+	`id` text PRIMARY KEY NOT NULL,
+	`seq` integer NOT NULL,
+	`room_id` text,
+	`timestamp` integer NOT NULL,
+	`data` text NOT NULL
+);
+--> statement-breakpoint
+CREATE UNIQUE INDEX `messages_seq_unique` ON `messages` (`seq`);--> statement-breakpoint
+CREATE INDEX `messages_room_seq_idx` ON `messages` (`room_id`,`seq`);--> statement-breakpoint
+CREATE TABLE `rooms` (
+	`id` text PRIMARY KEY NOT NULL,
+	`name` text NOT NULL,
+	`participants` text NOT NULL,
+	`created_by` text NOT NULL,
+	`created_at` integer NOT NULL,
+	`is_public` integer NOT NULL,
+	`admins` text
+);
@@ -0,0 +1,2 @@
+ALTER TABLE `file_transfers` ADD `room_id` text;--> statement-breakpoint
+ALTER TABLE `file_transfers` ADD `key_version` integer;
\ No newline at end of file
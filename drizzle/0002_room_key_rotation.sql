@@ -0,0 +1,2 @@
+ALTER TABLE `rooms` ADD `key_version` integer;--> statement-breakpoint
+ALTER TABLE `rooms` ADD `rekey_needed` integer DEFAULT false NOT NULL;
\ No newline at end of file
@@ -0,0 +1 @@
+ALTER TABLE `file_transfers` ADD `signature` text;
\ No newline at end of file
@@ -0,0 +1,5 @@
+CREATE TABLE `identity_keys` (
+	`user_id` text PRIMARY KEY NOT NULL,
+	`public_key_jwk` text NOT NULL,
+	`signing_key_jwk` text
+);
@@ -0,0 +1,10 @@
+CREATE TABLE `room_invites` (
+	`token_hash` text PRIMARY KEY NOT NULL,
+	`room_id` text NOT NULL,
+	`created_by` text NOT NULL,
+	`created_at` integer NOT NULL,
+	`expires_at` integer NOT NULL,
+	FOREIGN KEY (`room_id`) REFERENCES `rooms`(`id`) ON UPDATE no action ON DELETE cascade
+);
+--> statement-breakpoint
+CREATE INDEX `room_invites_room_idx` ON `room_invites` (`room_id`);
\ No newline at end of file
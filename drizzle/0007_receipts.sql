@@ -0,0 +1,6 @@
+CREATE TABLE `receipts` (
+	`user_id` text PRIMARY KEY NOT NULL,
+	`delivered_seq` integer DEFAULT 0 NOT NULL,
+	`read` text NOT NULL,
+	FOREIGN KEY (`user_id`) REFERENCES `accounts`(`id`) ON UPDATE no action ON DELETE cascade
+);
@@ -0,0 +1 @@
+ALTER TABLE `rooms` ADD `is_direct` integer DEFAULT false NOT NULL;
\ No newline at end of file
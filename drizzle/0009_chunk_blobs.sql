@@ -0,0 +1,14 @@
+PRAGMA foreign_keys=OFF;--> statement-breakpoint
+CREATE TABLE `__new_file_chunks` (
+	`transfer_id` text NOT NULL,
+	`idx` integer NOT NULL,
+	`data` blob NOT NULL,
+	`nonce` text NOT NULL,
+	PRIMARY KEY(`transfer_id`, `idx`),
+	FOREIGN KEY (`transfer_id`) REFERENCES `file_transfers`(`id`) ON UPDATE no action ON DELETE cascade
+);
+--> statement-breakpoint
+INSERT INTO `__new_file_chunks`("transfer_id", "idx", "data", "nonce") SELECT "transfer_id", "idx", "data", "nonce" FROM `file_chunks`;--> statement-breakpoint
+DROP TABLE `file_chunks`;--> statement-breakpoint
+ALTER TABLE `__new_file_chunks` RENAME TO `file_chunks`;--> statement-breakpoint
+PRAGMA foreign_keys=ON;
\ No newline at end of file
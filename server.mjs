@@ -0,0 +1,163 @@
+// Custom Next.js server that adds a real WebSocket transport on /api/ws.
+// - Push: events published through src/lib/realtime.ts are fanned out to sockets.
+// - Requests: JSON frames { id, type, payload } are replayed against the POST
+//   /api/ws handler so both transports share one code path.
+// - Upgrades are accepted only with a valid session cookie (/api/auth/session).
+//   Every relayed frame is authorized again by the route; a socket whose
+//   session ended (logout, expiry) is closed.
+// Plain `next dev` / `next start` still work; clients fall back to polling.
+import { EventEmitter } from 'node:events';
+import { createServer } from 'node:http';
+import { parse } from 'node:url';
+import next from 'next';
+import { WebSocketServer } from 'ws';
+
+const args = process.argv.slice(2);
+const argValue = (names, fallback) => {
+  const i = args.findIndex((a) => names.includes(a));
+  return i !== -1 && args[i + 1] ? args[i + 1] : fallback;
+};
+
+const dev = process.env.NODE_ENV !== 'production';
+const hostname = argValue(['-H', '--hostname'], process.env.HOSTNAME || '0.0.0.0');
+const port = Number(argValue(['-p', '--port'], process.env.PORT || 3000));
+// Where this process reaches itself: the bound address, loopback for wildcard binds
+const selfHost = ['0.0.0.0', '::', ''].includes(hostname) ? '127.0.0.1' : hostname.includes(':') ? `[${hostname}]` : hostname;
+const selfOrigin = `http://${selfHost}:${port}`;
+
+// Next.js attaches its own 'upgrade' listener to `httpServer` on the first
+// request. Hand it a detached emitter so upgrades are dispatched only below.
+const detachedUpgrades = new EventEmitter();
+const app = next({
+  dev,
+  hostname,
+  port,
+  turbopack: dev && args.includes('--turbopack'),
+  httpServer: detachedUpgrades,
+});
+const handle = app.getRequestHandler();
+
+// Must match the hub shape in src/lib/realtime.ts
+const hub = (globalThis.__lanhubRealtime ??= { listeners: new Set() });
+
+const PING_INTERVAL = 30000;
+// Close code for sockets whose session is gone (logout, expiry)
+const SESSION_ENDED = 4401;
+
+await app.prepare();
+const upgradeNext = app.getUpgradeHandler();
+
+const wss = new WebSocketServer({ noServer: true });
+
+wss.on('connection', (socket, req, userId) => {
+  socket.userId = userId;
+  socket.cookie = req.headers.cookie;
+  socket.isAlive = true;
+  socket.on('pong', () => { socket.isAlive = true; });
+
+  socket.on('message', async (raw) => {
+    let frame;
+    try {
+      frame = JSON.parse(raw.toString());
+    } catch {
+      socket.send(JSON.stringify({ replyTo: null, status: 400, body: { error: 'Invalid JSON frame' } }));
+      return;
+    }
+    try {
+      const res = await fetch(`${selfOrigin}/api/ws`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          ...(socket.cookie ? { cookie: socket.cookie } : {}),
+        },
+        body: JSON.stringify({ type: frame.type, payload: frame.payload }),
+      });
+      const body = await res.json().catch(() => ({}));
+      if (socket.readyState === socket.OPEN) {
+        socket.send(JSON.stringify({ replyTo: frame.id ?? null, status: res.status, body }));
+        // The route found no session for the cookie: stop pushing to it
+        if (res.status === 401) socket.close(SESSION_ENDED, 'Session ended');
+      }
+    } catch (e) {
+      console.error('WebSocket relay error:', e);
+      if (socket.readyState === socket.OPEN) {
+        socket.send(JSON.stringify({ replyTo: frame.id ?? null, status: 500, body: { error: 'Server error' } }));
+      }
+    }
+  });
+});
+
+hub.listeners.add((event) => {
+  if (event.type === 'session_ended') {
+    closeEndedSessions(event.audience ?? []);
+    return;
+  }
+  const data = JSON.stringify({ type: event.type, payload: event.payload });
+  for (const socket of wss.clients) {
+    if (socket.readyState !== socket.OPEN) continue;
+    if (Array.isArray(event.audience) && !event.audience.includes(socket.userId)) continue;
+    socket.send(data);
+  }
+});
+
+// Drop sockets that stopped answering pings (sleeping laptops, dropped Wi-Fi)
+setInterval(() => {
+  for (const socket of wss.clients) {
+    if (!socket.isAlive) {
+      socket.terminate();
+      continue;
+    }
+    socket.isAlive = false;
+    socket.ping();
+  }
+}, PING_INTERVAL);
+
+const server = createServer((req, res) => {
+  handle(req, res, parse(req.url || '/', true));
+});
+
+// Account id for a session cookie, or null
+const resolveSessionUser = async (cookie) => {
+  if (!cookie) return null;
+  try {
+    const res = await fetch(`${selfOrigin}/api/auth/session`, { headers: { cookie } });
+    if (!res.ok) return null;
+    const body = await res.json();
+    return typeof body?.user?.id === 'string' ? body.user.id : null;
+  } catch (e) {
+    console.error('WebSocket session lookup error:', e);
+    return null;
+  }
+};
+
+// A session of these users ended: close their sockets whose cookie no
+// longer resolves (other devices of the same account stay connected)
+async function closeEndedSessions(userIds) {
+  for (const socket of wss.clients) {
+    if (!userIds.includes(socket.userId) || socket.readyState !== socket.OPEN) continue;
+    if ((await resolveSessionUser(socket.cookie)) !== socket.userId && socket.readyState === socket.OPEN) {
+      socket.close(SESSION_ENDED, 'Session ended');
+    }
+  }
+}
+
+server.on('upgrade', async (req, socket, head) => {
+  const { pathname } = parse(req.url || '/', true);
+  if (pathname !== '/api/ws') {
+    // Next.js dev tooling (HMR) uses its own upgrade path
+    upgradeNext(req, socket, head);
+    return;
+  }
+  const userId = await resolveSessionUser(req.headers.cookie);
+  if (!userId) {
+    socket.end('HTTP/1.1 401 Unauthorized\r\nConnection: close\r\nContent-Length: 0\r\n\r\n');
+    return;
+  }
+  wss.handleUpgrade(req, socket, head, (ws) => {
+    wss.emit('connection', ws, req, userId);
+  });
+});
+
+server.listen(port, hostname, () => {
+  console.log(`> LAN Hub ready on http://${hostname}:${port} (${dev ? 'dev' : 'production'}, WebSocket on /api/ws)`);
+});
@@ -0,0 +1,20 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { refuseUntilHydrated } from '@/lib/persistence';
+import { checkPassword, startSession, toPublicAccount } from '@/lib/auth';
+
+// body: { username, password }
+export async function POST(req: NextRequest) {
+  const body = await req.json().catch(() => null);
+  const { username, password } = body ?? {};
+  if (typeof username !== 'string' || typeof password !== 'string') {
+    return NextResponse.json({ error: 'Username and password are required' }, { status: 400 });
+  }
+
+  const loading = await refuseUntilHydrated();
+  if (loading) return loading;
+  const account = await checkPassword(username, password);
+  if (!account) return NextResponse.json({ error: 'Invalid username or password' }, { status: 401 });
+  const res = NextResponse.json({ success: true, user: toPublicAccount(account) });
+  await startSession(req, res, account.id);
+  return res;
+}
@@ -0,0 +1,11 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { refuseUntilHydrated } from '@/lib/persistence';
+import { endSession } from '@/lib/auth';
+
+export async function POST(req: NextRequest) {
+  const loading = await refuseUntilHydrated();
+  if (loading) return loading;
+  const res = NextResponse.json({ success: true });
+  await endSession(req, res);
+  return res;
+}
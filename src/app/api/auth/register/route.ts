@@ -0,0 +1,22 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { refuseUntilHydrated } from '@/lib/persistence';
+import { createAccount, findAccountByUsername, startSession, toPublicAccount, validateRegistration } from '@/lib/auth';
+
+// body: { username, password, displayName } => signs the new account in
+export async function POST(req: NextRequest) {
+  const body = await req.json().catch(() => null);
+  const { username, password, displayName } = body ?? {};
+  const invalid = validateRegistration(username, password, displayName);
+  if (invalid) return NextResponse.json({ error: invalid }, { status: 400 });
+
+  const loading = await refuseUntilHydrated();
+  if (loading) return loading;
+  if (findAccountByUsername(username)) {
+    return NextResponse.json({ error: 'Username already exists' }, { status: 409 });
+  }
+  const account = await createAccount(username, password, displayName);
+  if (!account) return NextResponse.json({ error: 'Username already exists' }, { status: 409 });
+  const res = NextResponse.json({ success: true, user: toPublicAccount(account) });
+  await startSession(req, res, account.id);
+  return res;
+}
@@ -0,0 +1,16 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { refuseUntilHydrated } from '@/lib/persistence';
+import { getSessionAccount, toPublicAccount } from '@/lib/auth';
+import { unauthorized } from '@/lib/authz';
+
+// Current account for the session cookie. Also used by server.mjs to
+// authenticate WebSocket upgrades.
+export const dynamic = 'force-dynamic';
+
+export async function GET(req: NextRequest) {
+  const loading = await refuseUntilHydrated();
+  if (loading) return loading;
+  const account = getSessionAccount(req);
+  if (!account) return unauthorized();
+  return NextResponse.json({ success: true, user: toPublicAccount(account) });
+}
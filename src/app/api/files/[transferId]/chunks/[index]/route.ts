@@ -0,0 +1,65 @@
+import { NextRequest } from 'next/server';
+import { refuseUntilHydrated } from '@/lib/persistence';
+import { getSessionAccount } from '@/lib/auth';
+import { unauthorized } from '@/lib/authz';
+import { readChunk, storeChunk } from '@/lib/file-chunks';
+import { ApiResponse, CHUNK_NONCE_HEADER, MAX_SEALED_CHUNK_SIZE, TOTAL_CHUNKS_HEADER } from '@/lib/protocol';
+
+// Binary chunk transport: the chunk is the raw request (PUT) or response (GET)
+// body, application/octet-stream, with its nonce in X-Chunk-Nonce. Same rules
+// and replies as upload_chunk/download_file_chunk, without the base64 third.
+export const dynamic = 'force-dynamic';
+
+interface ChunkParams {
+  params: Promise<{ transferId: string; index: string }>;
+}
+
+const badRequest = (error: string) => Response.json({ error }, { status: 400 });
+const tooLarge = () => Response.json({ error: 'Chunk too large' }, { status: 413 });
+
+const parseCount = (raw: string) => (/^\d{1,9}$/.test(raw) ? Number(raw) : null);
+// base64 of a 12-byte AES-GCM nonce, or '' for plaintext chunks
+const NONCE_PATTERN = /^[A-Za-z0-9+/]{0,64}={0,2}$/;
+
+export async function PUT(req: NextRequest, { params }: ChunkParams) {
+  const loading = await refuseUntilHydrated();
+  if (loading) return loading;
+  const account = getSessionAccount(req);
+  if (!account) return unauthorized();
+  const { transferId, index: rawIndex } = await params;
+  const index = parseCount(rawIndex);
+  if (index === null) return badRequest('Invalid chunk index');
+  const rawTotal = req.headers.get(TOTAL_CHUNKS_HEADER);
+  const totalChunks = rawTotal === null ? undefined : parseCount(rawTotal);
+  if (totalChunks === null || totalChunks === 0) return badRequest(`Invalid ${TOTAL_CHUNKS_HEADER}`);
+  const nonce = req.headers.get(CHUNK_NONCE_HEADER) ?? '';
+  if (!NONCE_PATTERN.test(nonce)) return badRequest(`Invalid ${CHUNK_NONCE_HEADER}`);
+  // Refuse declared oversize bodies before reading them
+  if (Number(req.headers.get('content-length') ?? 0) > MAX_SEALED_CHUNK_SIZE) return tooLarge();
+  const data = new Uint8Array(await req.arrayBuffer());
+  if (data.byteLength > MAX_SEALED_CHUNK_SIZE) return tooLarge();
+
+  const refused = await storeChunk(account.id, transferId, index, totalChunks, { data, nonce });
+  if (refused) return refused;
+  return Response.json({ success: true, received: index } satisfies ApiResponse<'upload_chunk'>);
+}
+
+export async function GET(req: NextRequest, { params }: ChunkParams) {
+  const loading = await refuseUntilHydrated();
+  if (loading) return loading;
+  const account = getSessionAccount(req);
+  if (!account) return unauthorized();
+  const { transferId, index: rawIndex } = await params;
+  const index = parseCount(rawIndex);
+  if (index === null) return badRequest('Invalid chunk index');
+
+  const chunk = readChunk(account.id, transferId, index);
+  if (chunk instanceof Response) return chunk;
+  return new Response(new Uint8Array(chunk.data), {
+    headers: {
+      'Content-Type': 'application/octet-stream',
+      'Cache-Control': 'no-store',
+      [CHUNK_NONCE_HEADER]: chunk.nonce,
+    },
+  });
+}
@@ -0,0 +1,85 @@
+import { NextRequest } from 'next/server';
+import { subscribe, PushEvent } from '@/lib/realtime';
+import { getServerState, settledSeq } from '@/lib/server-state';
+import { refuseUntilHydrated } from '@/lib/persistence';
+import { getSessionAccount } from '@/lib/auth';
+import { canReadMessage, unauthorized } from '@/lib/authz';
+
+// Server-Sent Events stream: same events as the WebSocket transport, for
+// browsers behind proxies that break upgrades. `new_message` events carry
+// `id: <seq>` so EventSource resumes via Last-Event-ID after a drop; the id
+// never passes a seq still being stored, so resuming cannot skip that message.
+export const dynamic = 'force-dynamic';
+
+const state = getServerState();
+const KEEPALIVE_MS = 15000;
+
+const formatEvent = (event: Pick<PushEvent, 'type' | 'payload'>, id?: number) =>
+  (id !== undefined ? `id: ${id}\n` : '') + `data: ${JSON.stringify({ type: event.type, payload: event.payload })}\n\n`;
+
+export async function GET(req: NextRequest) {
+  const loading = await refuseUntilHydrated();
+  if (loading) return loading;
+  const userId = getSessionAccount(req)?.id;
+  if (!userId) return unauthorized();
+  // Browser reconnects send the header; first connects pass the client's lastSeq
+  const resumeFrom = Number(req.headers.get('last-event-id') ?? req.nextUrl.searchParams.get('lastEventId') ?? 0) || 0;
+
+  const encoder = new TextEncoder();
+  let cleanup = () => {};
+
+  const stream = new ReadableStream<Uint8Array>({
+    start(controller) {
+      const send = (chunk: string) => {
+        try {
+          controller.enqueue(encoder.encode(chunk));
+        } catch {
+          cleanup();
+        }
+      };
+
+      send('retry: 3000\n\n');
+      // Replay sequenced messages the client has not seen yet
+      if (resumeFrom > 0) {
+        for (const m of state.messageHistory) {
+          if ((m.seq ?? 0) > resumeFrom && canReadMessage(m, userId)) send(formatEvent({ type: 'new_message', payload: m }, Math.min(m.seq ?? 0, settledSeq(state))));
+        }
+      }
+
+      const unsubscribe = subscribe((event) => {
+        if (Array.isArray(event.audience) && !event.audience.includes(userId)) return;
+        if (event.type === 'session_ended') {
+          if (getSessionAccount(req)?.id === userId) return;
+          cleanup();
+          try { controller.close(); } catch {}
+          return;
+        }
+        send(formatEvent(event, event.type === 'new_message' ? Math.min(event.payload.seq ?? 0, settledSeq(state)) : undefined));
+      });
+      const keepalive = setInterval(() => send(': keepalive\n\n'), KEEPALIVE_MS);
+
+      cleanup = () => {
+        unsubscribe();
+        clearInterval(keepalive);
+        cleanup = () => {};
+      };
+      req.signal.addEventListener('abort', () => {
+        cleanup();
+        try { controller.close(); } catch {}
+      });
+    },
+    cancel() {
+      cleanup();
+    },
+  });
+
+  return new Response(stream, {
+    headers: {
+      'Content-Type': 'text/event-stream',
+      'Cache-Control': 'no-cache, no-transform',
+      Connection: 'keep-alive',
+      // Disable response buffering in nginx-style proxies
+      'X-Accel-Buffering': 'no',
+    },
+  });
+}
@@ -1,36 +1,43 @@
+import { randomBytes } from 'node:crypto';
 import { NextRequest } from 'next/server';
+import { publish, PushEvent } from '@/lib/realtime';
+import { getServerState, rememberMessage, ServerRoomInvite, settledSeq } from '@/lib/server-state';
+import { getPersistence, refuseUntilHydrated } from '@/lib/persistence';
+import { getSessionAccount, hashToken } from '@/lib/auth';
+import {
+  canAccessTransfer,
+  canModifyMessage,
+  canPostToRoom,
+  canReadMessage,
+  canReadRoom,
+  forbidden,
+  isRoomAdmin,
+  isRoomOwner,
+  messageAudience,
+  unauthorized,
+} from '@/lib/authz';
+import {
+  ApiError,
+  ApiResponse,
+  clientTooOldMessage,
+  invalidRequestError,
+  MIN_CLIENT_PROTOCOL_VERSION,
+  OnlineUser,
+  Receipt,
+  requestSchema,
+  SERVER_INFO,
+  TYPING_TTL_MS,
+  TypingSignal,
+  WireMessage,
+} from '@/lib/protocol';
+import { isEditable, tombstone } from '@/lib/edits';
+import { GLOBAL_ROOM_ID } from '@/lib/crypto';
+import { directRoomId, isDirectRoomId } from '@/lib/direct-messages';
+import { readChunk, storeChunk } from '@/lib/file-chunks';
 
-// Store connected clients
-const clients = new Set<any>();
-let messageHistory: any[] = [];
-let messageSeq = 0; // server-assigned monotonic sequence for reliable delivery
-let onlineUsers = new Map<string, any>();
-let deviceRegistry = new Map<string, any>();
-// Pending key update envelopes per-user (delivered via heartbeat)
-let keyUpdates = new Map<string, any[]>();
-// In-memory chat rooms
-let rooms = new Map<string, {
-  id: string;
-  name: string;
-  participants: string[];
-  createdBy: string;
-  createdAt: number;
-  isPublic: boolean;
-  admins?: string[];
-}>();
-// In-memory encrypted file transfers (metadata + chunks)
-let fileTransfers = new Map<string, {
-  id: string;
-  senderId: string;
-  senderName: string;
-  fileName: string;
-  fileSize: number;
-  totalChunks: number;
-  recipients?: string[]; // undefined or empty => broadcast
-  createdAt: number;
-  completed: boolean;
-  chunks: Map<number, { data: string; nonce: string }>; // base64 ciphertext + nonce per chunk
-}>();
+const state = getServerState();
+// How long a room invite token stays valid (unless revoked earlier)
+const INVITE_TTL_MS = 24 * 60 * 60 * 1000;
 
 export async function GET(req: NextRequest) {
   // Check if request is upgrade to WebSocket
@@ -40,8 +47,8 @@ export async function GET(req: NextRequest) {
     return new Response('Expected websocket', { status: 426 });
   }
 
-  // For Next.js, we'll use a long-polling fallback
-  // Real WebSocket requires a custom server
+  // Upgrades are handled by the custom server (server.mjs) before they reach
+  // Next.js. Landing here means we run under plain `next dev`/`next start`.
   return new Response(
     JSON.stringify({ 
       error: 'WebSocket upgrade not supported in serverless. Use polling endpoint.' 
@@ -56,7 +63,7 @@ export async function POST(req: NextRequest) {
     if (!contentType || !contentType.includes('application/json')) {
       return Response.json({ error: 'Invalid Content-Type, expected application/json' }, { status: 400 });
     }
-    let body;
+    let body: unknown;
     const rawBody = await req.text(); // Read raw body as text
     if (rawBody === '') {
       body = {}; // Treat empty body as an empty JSON object
@@ -68,63 +75,110 @@ export async function POST(req: NextRequest) {
       return Response.json({ error: 'Invalid JSON body' }, { status: 400 });
       }
     }
-    const { type, payload } = body;
+
+    // Handshake first: a client too old to talk to us hears so even before
+    // it has a session or a payload we accept
+    const tooOld = refuseOldClient(body);
+    if (tooOld) return tooOld;
+
+    // Persisted rooms/messages/transfers must be in memory before any action
+    const loading = await refuseUntilHydrated();
+    if (loading) return loading;
+    const persistence = getPersistence();
+
+    // Every action acts as the session's account; ids claimed in the payload are
+    // ignored. Per-action rules live in src/lib/authz.ts.
+    const account = getSessionAccount(req);
+    if (!account) return unauthorized();
+    const me = account.id;
+    const readable = <M extends { roomId?: string }>(messages: M[]) => messages.filter(m => canReadMessage(m, me));
+
+    // Payloads below are typed and validated per action (src/lib/protocol.ts)
+    const parsed = requestSchema.safeParse(body);
+    if (!parsed.success) return Response.json(invalidRequestError(parsed.error), { status: 400 });
+    const { type, payload } = parsed.data;
 
     switch (type) {
-      case 'register_user':
-        // Use 'id' instead of 'userId' for user identifier
-        onlineUsers.set(payload.id, {
-          ...payload,
+      case 'register_user': {
+        // Older clients were already refused by refuseOldClient
+        const protocolVersion = payload.protocolVersion ?? 1;
+        // Identity keys stay with the account that registered them first: a
+        // browser that another account used cannot move them over
+        if (identityKeysOfOther(me, [payload.publicKeyJwk, payload.signingKeyJwk])) {
+          return Response.json({ error: 'These identity keys belong to another account' }, { status: 409 });
+        }
+        // Presence entry keyed by account id; name and admin flag come from the account
+        const user: OnlineUser = {
+          id: me,
+          username: account.username,
+          displayName: account.displayName,
+          isAdmin: account.isAdmin,
+          avatar: payload.avatar,
           // allow clients to include ECDH public key for E2E key exchange
           publicKeyJwk: payload.publicKeyJwk,
+          // ECDSA key that verifies the user's message and file manifest signatures
+          signingKeyJwk: payload.signingKeyJwk,
+          protocolVersion,
+          capabilities: payload.capabilities,
           lastSeen: Date.now(),
           status: 'online'
-        });
+        };
+        state.onlineUsers.set(me, user);
+        // Remembered for list_identity_keys
+        if (payload.publicKeyJwk) {
+          const keys = { userId: me, publicKeyJwk: payload.publicKeyJwk, signingKeyJwk: payload.signingKeyJwk };
+          if (JSON.stringify(state.identityKeys.get(me)) !== JSON.stringify(keys)) {
+            state.identityKeys.set(me, keys);
+            await persistence.saveIdentityKeys(keys);
+          }
+        }
         broadcast({
           type: 'user_online',
           payload: {
-            userId: payload.id,
-            user: payload,
-            onlineUsers: Array.from(onlineUsers.values())
+            userId: me,
+            user,
+            onlineUsers: Array.from(state.onlineUsers.values())
           }
         });
         return Response.json({ 
           success: true, 
-          onlineUsers: Array.from(onlineUsers.values()),
-          messages: messageHistory
-        });
+          server: SERVER_INFO,
+          onlineUsers: Array.from(state.onlineUsers.values()),
+          messages: readable(state.messageHistory)
+        } satisfies ApiResponse<'register_user'>);
+      }
 
       case 'unregister_user':
-        onlineUsers.delete(payload.userId);
+        state.onlineUsers.delete(me);
         broadcast({
           type: 'user_offline',
           payload: {
-            userId: payload.userId,
-            onlineUsers: Array.from(onlineUsers.values())
+            userId: me,
+            onlineUsers: Array.from(state.onlineUsers.values())
           }
         });
-        return Response.json({ success: true });
+        return Response.json({ success: true } satisfies ApiResponse<'unregister_user'>);
 
-      case 'heartbeat':
-        if (onlineUsers.has(payload.userId)) {
-          const user = onlineUsers.get(payload.userId);
-          onlineUsers.set(payload.userId, {
+      case 'heartbeat': {
+        if (state.onlineUsers.has(me)) {
+          const user = state.onlineUsers.get(me)!;
+          state.onlineUsers.set(me, {
             ...user,
             lastSeen: Date.now()
           });
         }
         // Refresh any devices belonging to this user as online (keep-alive)
-        for (const [deviceId, device] of deviceRegistry.entries()) {
-          if (device.userId === payload.userId) {
-            deviceRegistry.set(deviceId, { ...device, lastSeen: Date.now(), isOnline: true });
+        for (const [deviceId, device] of state.deviceRegistry.entries()) {
+          if (device.userId === me) {
+            state.deviceRegistry.set(deviceId, { ...device, lastSeen: Date.now(), isOnline: true });
           }
         }
         // Collect new messages and file announcements since lastSeq (monotonic)
-        const lastSeq = payload.lastSeq || 0;
-        const newMessages = messageHistory.filter(m => (m.seq ?? 0) > lastSeq);
+        const lastSeq = payload.lastSeq;
+        const newMessages = readable(state.messageHistory.filter(m => (m.seq ?? 0) > lastSeq));
         // Provide lightweight announcements without relying on timestamps
-        const announcements = Array.from(fileTransfers.values())
-          .filter(t => (Array.isArray(t.recipients) ? t.recipients.includes(payload.userId) : true))
+        const announcements = Array.from(state.fileTransfers.values())
+          .filter(t => canAccessTransfer(t, me))
           .map(t => ({
             id: t.id,
             senderId: t.senderId,
@@ -136,52 +190,73 @@ export async function POST(req: NextRequest) {
             createdAt: t.createdAt,
             completed: t.completed,
           }));
+        // Everything up to the client's lastSeq has reached it
+        const receipt = receiptOf(me);
+        const delivered = Math.min(lastSeq, state.messageSeq);
+        if (delivered > receipt.deliveredSeq) {
+          receipt.deliveredSeq = delivered;
+          await persistence.saveReceipt(receipt);
+        }
         // Deliver key updates queued for this user
-        const queued = keyUpdates.get(payload.userId) || [];
-        keyUpdates.set(payload.userId, []);
+        const queued = state.keyUpdates.get(me) || [];
+        state.keyUpdates.set(me, []);
+        if (queued.length > 0) await persistence.clearKeyUpdates(me);
         return Response.json({ 
           success: true,
-          onlineUsers: Array.from(onlineUsers.values()),
+          onlineUsers: Array.from(state.onlineUsers.values()),
           newMessages,
-          lastSeq: messageSeq,
+          lastSeq: settledSeq(state),
           keyUpdates: queued,
           fileAnnouncements: announcements,
-          devices: Array.from(deviceRegistry.values()),
-          rooms: Array.from(rooms.values()),
-        });
+          devices: Array.from(state.deviceRegistry.values()),
+          rooms: visibleRooms(me),
+          receipts: visibleReceipts(me),
+          typing: activeTyping(me),
+        } satisfies ApiResponse<'heartbeat'>);
+      }
 
       case 'create_room':
-        // payload: { id, name, createdBy, isPublic, participants? }
-        if (!payload.id || !payload.name || !payload.createdBy) {
-          return Response.json({ error: 'Invalid create_room payload' }, { status: 400 });
+        // payload: { id, name, isPublic, participants? } (owner is the caller)
+        if (isDirectRoomId(payload.id)) {
+          return Response.json({ error: 'Room id is reserved for direct messages' }, { status: 400 });
         }
-        if (rooms.has(payload.id)) {
+        if (state.rooms.has(payload.id)) {
+          // A retried create (the first reply was lost) succeeds again
+          if (state.rooms.get(payload.id)!.createdBy === me) {
+            return Response.json({ success: true, rooms: visibleRooms(me) } satisfies ApiResponse<'create_room'>);
+          }
           return Response.json({ error: 'Room already exists' }, { status: 400 });
         }
-        rooms.set(payload.id, {
-          id: payload.id,
-          name: payload.name,
-          participants: Array.from(new Set([...(payload.participants || []), payload.createdBy])),
-          createdBy: payload.createdBy,
-          createdAt: Date.now(),
-          isPublic: !!payload.isPublic,
-          admins: payload.admins || [],
-        });
-        return Response.json({ success: true, rooms: Array.from(rooms.values()) });
+        {
+          const room = {
+            id: payload.id,
+            name: payload.name,
+            participants: Array.from(new Set([...(payload.participants || []), me])),
+            createdBy: me,
+            createdAt: Date.now(),
+            isPublic: !!payload.isPublic,
+            admins: payload.admins || [],
+          };
+          state.rooms.set(payload.id, room);
+          await persistence.saveRoom(room);
+        }
+        broadcastRooms();
+        return Response.json({ success: true, rooms: visibleRooms(me) } satisfies ApiResponse<'create_room'>);
 
       case 'update_room':
-        // payload: { roomId, byUserId, addParticipant?, removeParticipant?, addAdmin?, removeAdmin?, transferOwnerTo? }
+        // payload: { roomId, addParticipant?, removeParticipant?, addAdmin?, removeAdmin?, transferOwnerTo? }
         {
-          const r = rooms.get(payload.roomId);
+          const r = state.rooms.get(payload.roomId);
           if (!r) return Response.json({ error: 'Room not found' }, { status: 404 });
-          const isOwner = r.createdBy === payload.byUserId;
-          const isAdmin = isOwner || (Array.isArray(r.admins) && r.admins.includes(payload.byUserId));
-          if (!isAdmin) return Response.json({ error: 'Forbidden' }, { status: 403 });
+          if (r.isDirect) return directRoomFixed();
+          if (!isRoomAdmin(r, me)) return forbidden();
           // Mutations
           if (payload.addParticipant) {
             r.participants = Array.from(new Set([...r.participants, payload.addParticipant]));
           }
-          if (payload.removeParticipant) {
+          if (payload.removeParticipant && payload.removeParticipant !== r.createdBy) {
+            // Removed members still hold the current key: ask owner/admins to rotate
+            if (r.participants.includes(payload.removeParticipant)) r.rekeyNeeded = true;
             r.participants = r.participants.filter((u: string) => u !== payload.removeParticipant);
             // also drop admin if removed
             if (r.admins) r.admins = r.admins.filter((u: string) => u !== payload.removeParticipant);
@@ -203,106 +278,276 @@ export async function POST(req: NextRequest) {
             if (r.participants.includes(target)) {
               r.createdBy = target;
               // ensure previous owner remains participant/admin as needed
-              r.admins = Array.from(new Set([...(r.admins || []), payload.byUserId]));
+              r.admins = Array.from(new Set([...(r.admins || []), me]));
             }
           }
-          rooms.set(r.id, r);
-          return Response.json({ success: true, room: r, rooms: Array.from(rooms.values()) });
+          state.rooms.set(r.id, r);
+          await persistence.saveRoom(r);
+          broadcastRooms();
+          return Response.json({ success: true, room: r, rooms: visibleRooms(me) } satisfies ApiResponse<'update_room'>);
+        }
+
+      case 'join_room':
+        // payload: { roomId, token? } (private rooms: a token from create_invite)
+        {
+          const r = state.rooms.get(payload.roomId);
+          if (!r) return Response.json({ error: 'Room not found' }, { status: 404 });
+          if (r.isDirect) return directRoomFixed();
+          if (!r.isPublic && !r.participants.includes(me) && !findInvite(r.id, payload.token)) return forbidden();
+          if (!r.participants.includes(me)) {
+            r.participants = [...r.participants, me];
+            await persistence.saveRoom(r);
+            broadcastRooms();
+          }
+          return Response.json({ success: true, room: r, rooms: visibleRooms(me) } satisfies ApiResponse<'join_room'>);
+        }
+
+      case 'create_invite':
+        // payload: { roomId }; the token is returned once, only its hash is kept
+        {
+          const r = state.rooms.get(payload.roomId);
+          if (!r) return Response.json({ error: 'Room not found' }, { status: 404 });
+          if (r.isDirect) return directRoomFixed();
+          if (!isRoomAdmin(r, me)) return forbidden();
+          if (r.isPublic) return Response.json({ error: 'Public rooms need no invite' }, { status: 400 });
+          const token = randomBytes(24).toString('base64url');
+          const now = Date.now();
+          const invite: ServerRoomInvite = { tokenHash: hashToken(token), roomId: r.id, createdBy: me, createdAt: now, expiresAt: now + INVITE_TTL_MS };
+          state.roomInvites.set(invite.tokenHash, invite);
+          await persistence.saveRoomInvite(invite);
+          return Response.json({ success: true, token, expiresAt: invite.expiresAt } satisfies ApiResponse<'create_invite'>);
+        }
+
+      case 'revoke_invites':
+        // payload: { roomId }
+        {
+          const r = state.rooms.get(payload.roomId);
+          if (!r) return Response.json({ error: 'Room not found' }, { status: 404 });
+          if (!isRoomAdmin(r, me)) return forbidden();
+          const revoked = await revokeInvites(r.id);
+          return Response.json({ success: true, revoked } satisfies ApiResponse<'revoke_invites'>);
+        }
+
+      case 'open_direct':
+        // payload: { userId } (the other member); the same room for both sides
+        {
+          const peer = state.accounts.get(payload.userId);
+          if (!peer) return Response.json({ error: 'User not found' }, { status: 404 });
+          if (peer.id === me) return Response.json({ error: 'Cannot message yourself' }, { status: 400 });
+          const roomId = directRoomId(me, peer.id);
+          let r = state.rooms.get(roomId);
+          if (!r) {
+            r = {
+              id: roomId,
+              name: 'Direct message',
+              participants: [me, peer.id],
+              createdBy: me,
+              createdAt: Date.now(),
+              isPublic: false,
+              admins: [],
+              isDirect: true,
+            };
+            state.rooms.set(roomId, r);
+            await persistence.saveRoom(r);
+            broadcastRooms();
+          }
+          return Response.json({ success: true, room: r, rooms: visibleRooms(me) } satisfies ApiResponse<'open_direct'>);
+        }
+
+      case 'leave_room':
+        // payload: { roomId } (owners must transfer ownership or delete instead)
+        {
+          const r = state.rooms.get(payload.roomId);
+          if (!r) return Response.json({ error: 'Room not found' }, { status: 404 });
+          if (r.isDirect) return directRoomFixed();
+          if (r.createdBy === me) {
+            return Response.json({ error: 'Owner cannot leave the room' }, { status: 400 });
+          }
+          if (r.participants.includes(me)) {
+            r.participants = r.participants.filter((u: string) => u !== me);
+            if (r.admins) r.admins = r.admins.filter((u: string) => u !== me);
+            r.rekeyNeeded = true;
+            await persistence.saveRoom(r);
+            broadcastRooms();
+          }
+          return Response.json({ success: true, rooms: visibleRooms(me) } satisfies ApiResponse<'leave_room'>);
+        }
+
+      case 'rotate_room_key':
+        // payload: { roomId, fromVersion }
+        // Claims epoch fromVersion + 1 so concurrent admins cannot mint competing keys.
+        {
+          const r = state.rooms.get(payload.roomId);
+          if (!r) return Response.json({ error: 'Room not found' }, { status: 404 });
+          if (r.isDirect) return directRoomFixed();
+          if (!isRoomAdmin(r, me)) return forbidden();
+          const { fromVersion } = payload;
+          if (r.keyVersion !== undefined && r.keyVersion !== fromVersion) {
+            return Response.json({ error: 'Key already rotated', keyVersion: r.keyVersion }, { status: 409 });
+          }
+          r.keyVersion = fromVersion + 1;
+          r.rekeyNeeded = false;
+          await persistence.saveRoom(r);
+          broadcastRooms();
+          return Response.json({ success: true, keyVersion: r.keyVersion, rooms: visibleRooms(me) } satisfies ApiResponse<'rotate_room_key'>);
         }
 
       case 'delete_room':
-        // payload: { roomId, byUserId }
+        // payload: { roomId }
         {
-          const r = rooms.get(payload.roomId);
-          if (!r) return Response.json({ success: true });
-          const isOwner = r.createdBy === payload.byUserId;
-          if (!isOwner) return Response.json({ error: 'Forbidden' }, { status: 403 });
-          rooms.delete(payload.roomId);
-          return Response.json({ success: true, rooms: Array.from(rooms.values()) });
+          const r = state.rooms.get(payload.roomId);
+          if (!r) return Response.json({ success: true } satisfies ApiResponse<'delete_room'>);
+          if (r.isDirect) return directRoomFixed();
+          if (!isRoomOwner(r, me)) return forbidden();
+          state.rooms.delete(payload.roomId);
+          await revokeInvites(r.id);
+          await persistence.deleteRoom(payload.roomId);
+          broadcastRooms();
+          return Response.json({ success: true, rooms: visibleRooms(me) } satisfies ApiResponse<'delete_room'>);
         }
 
-      case 'send_message':
-        const message = {
-          ...payload,
-          timestamp: Date.now(),
-          seq: ++messageSeq,
-        };
-        messageHistory.push(message);
-        // Keep only last 200 messages to support encryption metadata
-        if (messageHistory.length > 200) {
-          messageHistory = messageHistory.slice(-200);
+      case 'send_message': {
+        if (!canPostToRoom(payload.roomId, account)) return forbidden();
+        // Clients retry unconfirmed sends with the same id: one seq per message id
+        if (state.sendsInFlight.has(payload.id)) return Response.json({ error: 'Send in progress' }, { status: 409 });
+        state.sendsInFlight.add(payload.id);
+        try {
+          const stored = state.messageHistory.find(m => m.id === payload.id) ?? await persistence.loadMessage(payload.id);
+          if (stored) {
+            if (stored.senderId !== me) return forbidden();
+            return Response.json({ success: true, message: stored } satisfies ApiResponse<'send_message'>);
+          }
+          if (payload.targetId) {
+            // Edits and deletes: same room as the original, by its sender or a room admin
+            const target = state.messageHistory.find(m => m.id === payload.targetId)
+              ?? await persistence.loadMessage(payload.targetId);
+            if (!target) return Response.json({ error: 'Not found' }, { status: 404 });
+            if (target.roomId !== payload.roomId || !isEditable(target) || !canModifyMessage(target, account)) {
+              return forbidden();
+            }
+          }
+          const message = {
+            ...payload,
+            senderId: me,
+            senderName: account.displayName,
+            timestamp: Date.now(),
+            seq: ++state.messageSeq,
+          };
+          // Stored first: a seq or id collision fails the send instead of
+          // leaving a message only in memory. Until then the seq is in flight,
+          // so heartbeats do not move clients past it.
+          state.seqsInFlight.add(message.seq);
+          try {
+            await persistence.saveMessage(message);
+          } catch (e) {
+            // Give the seq back unless a later send already took the next one
+            if (state.messageSeq === message.seq) state.messageSeq--;
+            throw e;
+          } finally {
+            state.seqsInFlight.delete(message.seq);
+          }
+          rememberMessage(state, message);
+          if (message.type === 'delete' && message.targetId) await tombstoneMessage(message.targetId);
+          broadcast({
+            type: 'new_message',
+            payload: message,
+            audience: messageAudience(message),
+          });
+          return Response.json({ success: true, message } satisfies ApiResponse<'send_message'>);
+        } finally {
+          state.sendsInFlight.delete(payload.id);
         }
-        broadcast({
-          type: 'new_message',
-          payload: message
-        });
-        return Response.json({ success: true, message });
+      }
 
       case 'register_device':
-        // Use 'id' for deviceId
-        deviceRegistry.set(payload.id, {
+        // Use 'id' for deviceId; another user's device id cannot be taken over
+        {
+          const owner = state.deviceRegistry.get(payload.id)?.userId;
+          if (owner && owner !== me) return forbidden();
+        }
+        state.deviceRegistry.set(payload.id, {
           ...payload,
+          userId: me,
           lastSeen: Date.now(),
           isOnline: true
         });
         broadcast({
           type: 'device_online',
           payload: {
-            devices: Array.from(deviceRegistry.values())
+            devices: Array.from(state.deviceRegistry.values())
           }
         });
         return Response.json({ 
           success: true,
-          devices: Array.from(deviceRegistry.values())
-        });
+          devices: Array.from(state.deviceRegistry.values())
+        } satisfies ApiResponse<'register_device'>);
       case 'key_update':
         // Enqueue an encrypted room key update for target user
-        // payload: { targetUserId, fromUserId, envelope: { epk, saltB64, nonceB64, ctB64 } }
-        if (!payload.targetUserId || !payload.envelope) {
-          return Response.json({ error: 'Invalid key_update payload' }, { status: 400 });
+        // payload: { targetUserId, envelope: { epk, saltB64, nonceB64, ctB64 } }
+        // Room keys come from whoever manages the room, sender chains from
+        // their own sender (recipients check signatures too)
+        {
+          const env = payload.envelope;
+          if ('kind' in env) {
+            if (env.senderId !== me || !canReadRoom(env.roomId === GLOBAL_ROOM_ID ? undefined : env.roomId, me)) return forbidden();
+          } else if (env.roomId === GLOBAL_ROOM_ID) {
+            if (!account.isAdmin) return forbidden();
+          } else {
+            const r = state.rooms.get(env.roomId);
+            if (!r || r.isDirect || !isRoomAdmin(r, me)) return forbidden();
+          }
+          const update = {
+            fromUserId: me,
+            envelope: payload.envelope,
+            timestamp: Date.now(),
+          };
+          if (!state.keyUpdates.has(payload.targetUserId)) state.keyUpdates.set(payload.targetUserId, []);
+          state.keyUpdates.get(payload.targetUserId)!.push(update);
+          await persistence.enqueueKeyUpdate(payload.targetUserId, update);
         }
-        if (!keyUpdates.has(payload.targetUserId)) keyUpdates.set(payload.targetUserId, []);
-        keyUpdates.get(payload.targetUserId)!.push({
-          fromUserId: payload.fromUserId,
-          envelope: payload.envelope,
-          timestamp: Date.now(),
-        });
-        return Response.json({ success: true });
+        // Nudge the target to drain its queue via heartbeat
+        broadcast({ type: 'key_update', payload: { fromUserId: me }, audience: [payload.targetUserId] });
+        return Response.json({ success: true } satisfies ApiResponse<'key_update'>);
+      case 'list_identity_keys':
+        // Public keys only; lets members wrap sender chains for offline readers
+        return Response.json({ success: true, keys: Array.from(state.identityKeys.values()) } satisfies ApiResponse<'list_identity_keys'>);
       case 'init_file_transfer':
-        // payload: { id, senderId, senderName, fileName, fileSize, totalChunks, recipients? }
-        fileTransfers.set(payload.id, {
-          id: payload.id,
-          senderId: payload.senderId,
-          senderName: payload.senderName,
-          fileName: payload.fileName,
-          fileSize: payload.fileSize,
-          totalChunks: payload.totalChunks,
-          recipients: payload.recipients,
-          createdAt: Date.now(),
-          completed: false,
-          chunks: new Map(),
-        });
-        return Response.json({ success: true });
-      case 'upload_chunk':
-        // payload: { transferId, index, totalChunks, data, nonce }
-        if (!fileTransfers.has(payload.transferId)) {
-          return Response.json({ error: 'Unknown transfer' }, { status: 400 });
-        }
+        // payload: { id, fileName, fileSize, totalChunks, recipients?, roomId?, keyVersion?, signature? }
+        if (payload.roomId && !canPostToRoom(payload.roomId, account)) return forbidden();
         {
-          const t = fileTransfers.get(payload.transferId)!;
-          t.totalChunks = payload.totalChunks || t.totalChunks;
-          t.chunks.set(payload.index, { data: payload.data, nonce: payload.nonce });
-          if (t.chunks.size >= t.totalChunks) {
-            t.completed = true;
-          }
-          return Response.json({ success: true, received: payload.index });
+          const existing = state.fileTransfers.get(payload.id);
+          if (existing && existing.senderId !== me) return forbidden();
+          const transfer = {
+            id: payload.id,
+            senderId: me,
+            senderName: account.displayName,
+            fileName: payload.fileName,
+            fileSize: payload.fileSize,
+            totalChunks: payload.totalChunks,
+            recipients: payload.recipients,
+            roomId: payload.roomId,
+            keyVersion: payload.keyVersion,
+            signature: payload.signature,
+            createdAt: Date.now(),
+            completed: false,
+          };
+          state.fileTransfers.set(payload.id, { ...transfer, chunks: new Map() });
+          await persistence.saveFileTransfer(transfer);
         }
+        return Response.json({ success: true } satisfies ApiResponse<'init_file_transfer'>);
+      case 'upload_chunk': {
+        // payload: { transferId, index, totalChunks, data, nonce }
+        const chunk = { data: Buffer.from(payload.data, 'base64'), nonce: payload.nonce };
+        const refused = await storeChunk(me, payload.transferId, payload.index, payload.totalChunks, chunk);
+        if (refused) return refused;
+        return Response.json({ success: true, received: payload.index } satisfies ApiResponse<'upload_chunk'>);
+      }
       case 'list_file_transfers':
-        // payload: { userId }
+        // Includes the caller's own uploads: availableChunks tells an
+        // interrupted sender where to resume
         {
-          const list = Array.from(fileTransfers.values())
-            .filter(t => t.senderId !== payload.userId)
-            .filter(t => (Array.isArray(t.recipients) ? t.recipients.includes(payload.userId) : true))
+          const list = Array.from(state.fileTransfers.values())
+            .filter(t => canAccessTransfer(t, me))
             .map(t => ({
               id: t.id,
               senderId: t.senderId,
@@ -310,34 +555,89 @@ export async function POST(req: NextRequest) {
               fileName: t.fileName,
               fileSize: t.fileSize,
               totalChunks: t.totalChunks,
+              roomId: t.roomId,
+              keyVersion: t.keyVersion,
+              signature: t.signature,
               completed: t.completed,
               availableChunks: Array.from(t.chunks.keys()).sort((a,b)=>a-b),
             }));
-          return Response.json({ success: true, transfers: list });
-        }
-      case 'download_file_chunk':
-        // payload: { userId, transferId, index }
-        {
-          const t = fileTransfers.get(payload.transferId);
-          if (!t) return Response.json({ error: 'Not found' }, { status: 404 });
-          // access control (best-effort; encryption still protects)
-          if (Array.isArray(t.recipients) && !t.recipients.includes(payload.userId)) {
-            return Response.json({ error: 'Forbidden' }, { status: 403 });
-          }
-          const chunk = t.chunks.get(payload.index);
-          if (!chunk) return Response.json({ error: 'Chunk not ready' }, { status: 404 });
-          return Response.json({ success: true, index: payload.index, data: chunk.data, nonce: chunk.nonce });
+          return Response.json({ success: true, transfers: list } satisfies ApiResponse<'list_file_transfers'>);
         }
+      case 'download_file_chunk': {
+        // payload: { transferId, index }
+        const chunk = readChunk(me, payload.transferId, payload.index);
+        if (chunk instanceof Response) return chunk;
+        const data = Buffer.from(chunk.data.buffer, chunk.data.byteOffset, chunk.data.byteLength).toString('base64');
+        return Response.json({ success: true, index: payload.index, data, nonce: chunk.nonce } satisfies ApiResponse<'download_file_chunk'>);
+      }
 
       case 'get_state':
         return Response.json({
           success: true,
-          onlineUsers: Array.from(onlineUsers.values()),
-          messages: messageHistory,
-          lastSeq: messageSeq,
-          devices: Array.from(deviceRegistry.values()),
-          rooms: Array.from(rooms.values()),
-        });
+          server: SERVER_INFO,
+          onlineUsers: Array.from(state.onlineUsers.values()),
+          messages: readable(state.messageHistory),
+          lastSeq: settledSeq(state),
+          devices: Array.from(state.deviceRegistry.values()),
+          rooms: visibleRooms(me),
+        } satisfies ApiResponse<'get_state'>);
+
+      case 'mark_read': {
+        if (!canReadRoom(payload.roomId, me)) return forbidden();
+        const receipt = receiptOf(me);
+        const key = payload.roomId ?? GLOBAL_ROOM_ID;
+        const seq = Math.min(payload.seq, state.messageSeq);
+        if (seq > (receipt.read[key] ?? 0)) {
+          receipt.read[key] = seq;
+          await persistence.saveReceipt(receipt);
+          // Only this room's position, to those who can read the room
+          broadcast({
+            type: 'receipts_updated',
+            payload: { receipt: { userId: me, deliveredSeq: receipt.deliveredSeq, read: { [key]: seq } } },
+            audience: messageAudience({ roomId: payload.roomId }),
+          });
+        }
+        return Response.json({ success: true, receipt } satisfies ApiResponse<'mark_read'>);
+      }
+
+      case 'set_typing': {
+        // Kept in memory only; renewals extend the expiry and are pushed again
+        if (!canPostToRoom(payload.roomId, account)) return forbidden();
+        const key = payload.roomId ?? GLOBAL_ROOM_ID;
+        const typists = state.typing.get(key) ?? new Map<string, number>();
+        const wasTyping = (typists.get(me) ?? 0) > Date.now();
+        if (payload.typing) typists.set(me, Date.now() + TYPING_TTL_MS);
+        else typists.delete(me);
+        state.typing.set(key, typists);
+        if (payload.typing || wasTyping) {
+          broadcast({
+            type: 'typing',
+            payload: { userId: me, roomId: payload.roomId, typing: payload.typing },
+            audience: messageAudience({ roomId: payload.roomId }),
+          });
+        }
+        return Response.json({ success: true } satisfies ApiResponse<'set_typing'>);
+      }
+
+      case 'fetch_history': {
+        // Pages backwards: the in-memory window first, then older rows from storage
+        const { roomId, limit } = payload;
+        if (!canReadRoom(roomId, me)) return forbidden();
+        const before = payload.before ?? Number.MAX_SAFE_INTEGER;
+        // One row beyond the page tells whether anything older remains
+        const hot = state.messageHistory
+          .filter(m => m.roomId === roomId && (m.seq ?? 0) < before)
+          .slice(-(limit + 1));
+        const older = hot.length <= limit
+          ? await persistence.loadMessages(roomId, hot[0]?.seq ?? before, limit + 1 - hot.length)
+          : [];
+        const page = [...older, ...hot];
+        return Response.json({
+          success: true,
+          messages: page.slice(-limit),
+          hasMore: page.length > limit,
+        } satisfies ApiResponse<'fetch_history'>);
+      }
 
       default:
         return Response.json({ error: 'Unknown type' }, { status: 400 });
@@ -348,10 +648,122 @@ export async function POST(req: NextRequest) {
   }
 }
 
-// Broadcast helper (in real app, this would use WebSocket connections)
-function broadcast(message: any) {
-  // Store for polling clients
-  // In production, use actual WebSocket connections
+// Handshake: a register_user from a client older than we serve gets a 426
+// (v1 did not send a version). Read from the raw body, since an old client's
+// payload may not match the current schema.
+function refuseOldClient(body: unknown) {
+  if (!body || typeof body !== 'object') return null;
+  const { type, payload } = body as { type?: unknown; payload?: { protocolVersion?: unknown } };
+  if (type !== 'register_user') return null;
+  const protocolVersion = payload?.protocolVersion ?? 1;
+  if (typeof protocolVersion !== 'number' || protocolVersion >= MIN_CLIENT_PROTOCOL_VERSION) return null;
+  return Response.json({ error: clientTooOldMessage(protocolVersion), server: SERVER_INFO } satisfies ApiError, { status: 426 });
+}
+
+// Broadcast helper: pushes to WebSocket clients via the realtime hub.
+// Polling clients pick the same state up on their next heartbeat.
+function broadcast(message: PushEvent) {
+  publish(message);
+}
+
+// Rooms the viewer can read: private rooms (and their member lists) stay
+// hidden from everyone outside them
+function visibleRooms(viewerId: string) {
+  return Array.from(state.rooms.values()).filter(r => canReadRoom(r.id, viewerId));
+}
+
+// Every account gets its own room list
+function broadcastRooms() {
+  for (const userId of state.accounts.keys()) {
+    broadcast({ type: 'rooms_updated', payload: { rooms: visibleRooms(userId) }, audience: [userId] });
+  }
+}
+
+// The unexpired invite `token` stands for, if it admits to roomId
+function findInvite(roomId: string, token: string | undefined): ServerRoomInvite | undefined {
+  if (!token) return undefined;
+  const invite = state.roomInvites.get(hashToken(token));
+  if (!invite || invite.roomId !== roomId) return undefined;
+  if (invite.expiresAt <= Date.now()) {
+    state.roomInvites.delete(invite.tokenHash);
+    return undefined;
+  }
+  return invite;
+}
+
+async function revokeInvites(roomId: string): Promise<number> {
+  let revoked = 0;
+  for (const [tokenHash, invite] of state.roomInvites) {
+    if (invite.roomId !== roomId) continue;
+    state.roomInvites.delete(tokenHash);
+    revoked++;
+  }
+  await getPersistence().deleteRoomInvites(roomId);
+  return revoked;
+}
+
+const directRoomFixed = () => Response.json({ error: 'Direct message rooms cannot be changed' }, { status: 400 });
+
+function receiptOf(userId: string): Receipt {
+  let receipt = state.receipts.get(userId);
+  if (!receipt) {
+    receipt = { userId, deliveredSeq: 0, read: {} };
+    state.receipts.set(userId, receipt);
+  }
+  return receipt;
+}
+
+// Everyone's receipts, with read positions limited to rooms the viewer can read
+function visibleReceipts(viewerId: string): Receipt[] {
+  return Array.from(state.receipts.values()).map(r => ({
+    ...r,
+    read: Object.fromEntries(
+      Object.entries(r.read).filter(([key]) => canReadRoom(key === GLOBAL_ROOM_ID ? undefined : key, viewerId))
+    ),
+  }));
+}
+
+// Unexpired typing signals of others in rooms the viewer can read (expired ones are pruned)
+function activeTyping(viewerId: string): TypingSignal[] {
+  const now = Date.now();
+  const signals: TypingSignal[] = [];
+  for (const [key, typists] of state.typing) {
+    const roomId = key === GLOBAL_ROOM_ID ? undefined : key;
+    for (const [userId, expiresAt] of typists) {
+      if (expiresAt <= now) typists.delete(userId);
+      else if (userId !== viewerId && canReadRoom(roomId, viewerId)) signals.push({ userId, roomId });
+    }
+    if (typists.size === 0) state.typing.delete(key);
+  }
+  return signals;
+}
+
+// Whether any of jwks (compared by curve point) is registered to a user other than userId
+function identityKeysOfOther(userId: string, jwks: (JsonWebKey | undefined)[]): boolean {
+  const point = (k: JsonWebKey) => `${k.crv}:${k.x}:${k.y}`;
+  const wanted = new Set(jwks.flatMap(k => (k ? [point(k)] : [])));
+  if (wanted.size === 0) return false;
+  for (const k of state.identityKeys.values()) {
+    if (k.userId === userId) continue;
+    if (wanted.has(point(k.publicKeyJwk)) || (k.signingKeyJwk && wanted.has(point(k.signingKeyJwk)))) return true;
+  }
+  return false;
+}
+
+// Drop the content of a deleted message and of its edits, in memory and storage
+async function tombstoneMessage(targetId: string) {
+  const persistence = getPersistence();
+  const affected = new Map<string, WireMessage>();
+  const stored = await persistence.loadMessage(targetId);
+  const candidates = [...(stored ? [stored] : []), ...await persistence.loadEdits(targetId), ...state.messageHistory];
+  for (const m of candidates) {
+    if (m.id === targetId || (m.type === 'edit' && m.targetId === targetId)) affected.set(m.id, m);
+  }
+  for (const m of affected.values()) {
+    const dead = tombstone(m);
+    state.messageHistory = state.messageHistory.map(h => (h.id === m.id ? dead : h));
+    await persistence.replaceMessage(dead);
+  }
 }
 
 // Cleanup stale users every 30 seconds
@@ -359,15 +771,19 @@ setInterval(() => {
   const now = Date.now();
   const timeout = 35000; // 35 seconds
 
-  for (const [userId, user] of onlineUsers.entries()) {
+  for (const [userId, user] of state.onlineUsers.entries()) {
     if (now - user.lastSeen > timeout) {
-      onlineUsers.delete(userId);
+      state.onlineUsers.delete(userId);
+      broadcast({
+        type: 'user_offline',
+        payload: { userId, onlineUsers: Array.from(state.onlineUsers.values()) }
+      });
     }
   }
 
-  for (const [deviceId, device] of deviceRegistry.entries()) {
+  for (const [deviceId, device] of state.deviceRegistry.entries()) {
     if (now - device.lastSeen > timeout) {
-      deviceRegistry.delete(deviceId);
+      state.deviceRegistry.delete(deviceId);
     }
   }
 }, 30000);
\ No newline at end of file
@@ -3,9 +3,14 @@
 import { AppProvider, useApp } from '@/contexts/AppContext';
 import AuthForm from '@/components/AuthForm';
 import Dashboard from '@/components/Dashboard';
+import ProtocolMismatch from '@/components/ProtocolMismatch';
 
 function AppContent() {
-  const { currentUser } = useApp();
+  const { currentUser, protocolError } = useApp();
+
+  if (protocolError) {
+    return <ProtocolMismatch message={protocolError} />;
+  }
 
   if (!currentUser) {
     return <AuthForm />;
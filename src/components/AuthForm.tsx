@@ -9,6 +9,9 @@ import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
 import { useApp } from '@/contexts/AppContext';
 import { Wifi, Shield } from 'lucide-react';
 
+// Mirrors the server rule in src/lib/auth.ts
+const MIN_PASSWORD_LENGTH = 8;
+
 export default function AuthForm() {
   const { login, register } = useApp();
   const [loginUsername, setLoginUsername] = useState('');
@@ -17,30 +20,39 @@ export default function AuthForm() {
   const [registerPassword, setRegisterPassword] = useState('');
   const [registerDisplayName, setRegisterDisplayName] = useState('');
   const [error, setError] = useState('');
+  const [submitting, setSubmitting] = useState(false);
 
-  const handleLogin = (e: React.FormEvent) => {
+  const handleLogin = async (e: React.FormEvent) => {
     e.preventDefault();
     setError('');
     if (!loginUsername || !loginPassword) {
       setError('Please enter username and password');
       return;
     }
-    const success = login(loginUsername, loginPassword);
-    if (!success) {
-      setError('Invalid username or password');
+    setSubmitting(true);
+    const failure = await login(loginUsername, loginPassword);
+    setSubmitting(false);
+    if (failure) {
+      setError(failure);
     }
   };
 
-  const handleRegister = (e: React.FormEvent) => {
+  const handleRegister = async (e: React.FormEvent) => {
     e.preventDefault();
     setError('');
     if (!registerUsername || !registerPassword || !registerDisplayName) {
       setError('Please fill in all fields');
       return;
     }
-    const success = register(registerUsername, registerPassword, registerDisplayName);
-    if (!success) {
-      setError('Username already exists');
+    if (registerPassword.length < MIN_PASSWORD_LENGTH) {
+      setError(`Password must be at least ${MIN_PASSWORD_LENGTH} characters`);
+      return;
+    }
+    setSubmitting(true);
+    const failure = await register(registerUsername, registerPassword, registerDisplayName);
+    setSubmitting(false);
+    if (failure) {
+      setError(failure);
     }
   };
 
@@ -95,7 +107,7 @@ export default function AuthForm() {
                     />
                   </div>
                   {error && <p className="text-sm text-destructive">{error}</p>}
-                  <Button type="submit" className="w-full">
+                  <Button type="submit" className="w-full" disabled={submitting}>
                     Login
                   </Button>
                 </form>
@@ -128,13 +140,13 @@ export default function AuthForm() {
                     <Input
                       id="register-password"
                       type="password"
-                      placeholder="Choose a password"
+                      placeholder={`At least ${MIN_PASSWORD_LENGTH} characters`}
                       value={registerPassword}
                       onChange={(e) => setRegisterPassword(e.target.value)}
                     />
                   </div>
                   {error && <p className="text-sm text-destructive">{error}</p>}
-                  <Button type="submit" className="w-full">
+                  <Button type="submit" className="w-full" disabled={submitting}>
                     Register
                   </Button>
                 </form>
@@ -144,7 +156,7 @@ export default function AuthForm() {
         </Card>
 
         <div className="mt-6 text-center text-sm text-muted-foreground">
-          <p>🔒 All data is stored locally on your device</p>
+          <p>🔒 Messages and files are end-to-end encrypted</p>
           <p className="mt-1">🌐 No internet connection required</p>
         </div>
       </div>
@@ -20,21 +20,57 @@ import {
   Radio,
   Shield,
   Home,
-  Settings
+  Settings,
+  ShieldAlert,
+  ShieldCheck,
+  Search
 } from 'lucide-react';
+import { Alert, AlertDescription, AlertTitle } from '@/components/ui/alert';
 import FileSharing from './FileSharing';
 import Messaging from './Messaging';
 import DeviceMonitor from './DeviceMonitor';
+import VerifyUserDialog from './VerifyUserDialog';
+import SearchPalette from './SearchPalette';
+import type { SearchDoc } from '@/lib/search-index';
 
 export default function Dashboard() {
-  const { currentUser, users, devices, fileTransfers, activityLogs, logout, simulateDeviceDiscovery } = useApp();
+  const { currentUser, users, devices, fileTransfers, activityLogs, logout, simulateDeviceDiscovery, transport, getTrustState, keyChangedUserIds, serverInfo, openDirectMessage } = useApp();
   const [activeTab, setActiveTab] = useState('overview');
+  const [verifyUserId, setVerifyUserId] = useState<string | null>(null);
+  // Room the Messaging tab should show next
+  const [openRoom, setOpenRoom] = useState<{ roomId: string; messageId?: string } | null>(null);
+  const [isSearchOpen, setIsSearchOpen] = useState(false);
 
   useEffect(() => {
     simulateDeviceDiscovery();
   }, [simulateDeviceDiscovery]);
 
+  // Ctrl/Cmd+K opens the search palette
+  useEffect(() => {
+    const onKeyDown = (e: KeyboardEvent) => {
+      if (e.key.toLowerCase() === 'k' && (e.metaKey || e.ctrlKey)) {
+        e.preventDefault();
+        setIsSearchOpen(open => !open);
+      }
+    };
+    window.addEventListener('keydown', onKeyDown);
+    return () => window.removeEventListener('keydown', onKeyDown);
+  }, []);
+
   const onlineUsers = users.filter(u => u.status === 'online');
+  const directEnabled = !!serverInfo?.capabilities.includes('direct-messages');
+
+  const startDirectMessage = async (userId: string) => {
+    const roomId = await openDirectMessage(userId);
+    if (!roomId) return;
+    setOpenRoom({ roomId });
+    setActiveTab('messages');
+  };
+
+  const showSearchHit = (hit: SearchDoc) => {
+    setOpenRoom({ roomId: hit.roomKey, messageId: hit.id });
+    setActiveTab('messages');
+  };
   const recentTransfers = fileTransfers.slice(-5).reverse();
   const recentLogs = activityLogs.slice(-5).reverse();
 
@@ -100,6 +136,10 @@ export default function Dashboard() {
             </div>
 
             <div className="flex items-center gap-4">
+              <Button variant="outline" size="sm" onClick={() => setIsSearchOpen(true)} title="Search messages (Ctrl+K)">
+                <Search className="w-4 h-4 sm:mr-2" />
+                <span className="hidden sm:inline">Search</span>
+              </Button>
               <div className="text-right hidden sm:block">
                 <p className="font-medium">{currentUser?.displayName}</p>
                 <div className="flex items-center gap-2 justify-end">
@@ -166,6 +206,20 @@ export default function Dashboard() {
 
       {/* Main Content */}
       <main className="container mx-auto px-4 py-6">
+        {/* Identity key changes of verified users (possible interception) */}
+        {keyChangedUserIds.map((uid) => (
+          <Alert key={uid} variant="destructive" className="mb-4">
+            <ShieldAlert />
+            <AlertTitle>Security warning: identity key changed</AlertTitle>
+            <AlertDescription>
+              <p>
+                The key of {users.find(u => u.id === uid)?.displayName || uid} no longer matches the one you verified.
+                Room keys are withheld from them until you compare safety numbers again.
+              </p>
+              <Button size="sm" variant="destructive" onClick={() => setVerifyUserId(uid)}>Review</Button>
+            </AlertDescription>
+          </Alert>
+        ))}
         <div className={activeTab !== 'overview' ? 'hidden' : ''}>
           <div className="space-y-6">
             {/* Stats Grid */}
@@ -216,7 +270,13 @@ export default function Dashboard() {
                 </CardHeader>
                 <CardContent>
                   <div className="text-2xl font-bold text-green-500">Active</div>
-                  <p className="text-xs text-muted-foreground">LAN connection stable</p>
+                  <p className="text-xs text-muted-foreground">
+                    {transport === 'websocket'
+                      ? 'Live updates via WebSocket'
+                      : transport === 'sse'
+                        ? 'Live updates via event stream'
+                        : 'Polling fallback (heartbeat)'}
+                  </p>
                 </CardContent>
               </Card>
             </div>
@@ -246,6 +306,34 @@ export default function Dashboard() {
                           </div>
                           <div className="flex items-center gap-2">
                             {user.isAdmin && <Badge variant="secondary" className="text-xs">Admin</Badge>}
+                            {directEnabled && user.id !== currentUser?.id && (
+                              <Button
+                                size="icon"
+                                variant="ghost"
+                                className="h-7 w-7"
+                                onClick={() => startDirectMessage(user.id)}
+                                title={`Message ${user.displayName}`}
+                              >
+                                <MessageSquare className="w-4 h-4" />
+                              </Button>
+                            )}
+                            {user.id !== currentUser?.id && (() => {
+                              const trust = getTrustState(user.id);
+                              if (trust === 'no_key') return null;
+                              return (
+                                <Button
+                                  size="icon"
+                                  variant="ghost"
+                                  className="h-7 w-7"
+                                  onClick={() => setVerifyUserId(user.id)}
+                                  title={trust === 'verified' ? 'Verified' : trust === 'changed' ? 'Identity key changed' : 'Verify safety number'}
+                                >
+                                  {trust === 'changed'
+                                    ? <ShieldAlert className="w-4 h-4 text-destructive" />
+                                    : <ShieldCheck className={`w-4 h-4 ${trust === 'verified' ? 'text-green-500' : 'text-muted-foreground'}`} />}
+                                </Button>
+                              );
+                            })()}
                             <div className="w-2 h-2 rounded-full bg-green-500 animate-pulse" />
                           </div>
                         </div>
@@ -319,13 +407,16 @@ export default function Dashboard() {
         </div>
 
         <div className={activeTab !== 'messages' ? 'hidden' : ''}>
-          <Messaging />
+          <Messaging openRoom={openRoom} />
         </div>
 
         <div className={activeTab !== 'devices' ? 'hidden' : ''}>
           <DeviceMonitor />
         </div>
       </main>
+
+      <VerifyUserDialog userId={verifyUserId} onOpenChange={(open) => { if (!open) setVerifyUserId(null); }} />
+      <SearchPalette open={isSearchOpen} onOpenChange={setIsSearchOpen} onSelect={showSearchHit} />
     </div>
   );
 }
\ No newline at end of file
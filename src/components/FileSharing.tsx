@@ -1,6 +1,6 @@
 "use client";
 
-import React, { useState, useCallback } from 'react';
+import React, { useState, useCallback, useRef } from 'react';
 import { useApp } from '@/contexts/AppContext';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
@@ -14,12 +14,19 @@ import {
   CheckCircle, 
   XCircle, 
   Clock,
-  Loader2
+  Loader2,
+  PauseCircle,
+  ShieldCheck,
+  ShieldQuestion
 } from 'lucide-react';
 
 export default function FileSharing() {
-  const { currentUser, fileTransfers, updateFileTransfer, removeFileTransfer, sendFiles } = useApp();
+  const { currentUser, fileTransfers, updateFileTransfer, removeFileTransfer, sendFiles, resumeUpload, transferStats } = useApp();
   const [dragActive, setDragActive] = useState(false);
+  // Upload waiting for its file to be selected again, and why resuming failed
+  const [resumingId, setResumingId] = useState<string | null>(null);
+  const [resumeErrors, setResumeErrors] = useState<Record<string, string>>({});
+  const resumeInputRef = useRef<HTMLInputElement>(null);
 
   const handleDrag = useCallback((e: React.DragEvent) => {
     e.preventDefault();
@@ -55,6 +62,22 @@ export default function FileSharing() {
     }
   };
 
+  const pickResumeFile = (transferId: string) => {
+    setResumingId(transferId);
+    resumeInputRef.current?.click();
+  };
+
+  const handleResumeInput = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.currentTarget.value = '';
+    if (!file || !resumingId) return;
+    const transferId = resumingId;
+    setResumingId(null);
+    setResumeErrors(({ [transferId]: _, ...rest }) => rest);
+    const error = await resumeUpload(transferId, file);
+    if (error) setResumeErrors(prev => ({ ...prev, [transferId]: error }));
+  };
+
   const startDownload = (t: FileTransfer) => {
     if (!t.downloadUrl) return;
     const a = document.createElement('a');
@@ -73,6 +96,20 @@ export default function FileSharing() {
     return Math.round(bytes / Math.pow(k, i) * 100) / 100 + ' ' + sizes[i];
   };
 
+  const formatDuration = (seconds: number): string => {
+    if (seconds < 60) return `${Math.max(1, Math.round(seconds))} s`;
+    if (seconds < 3600) return `${Math.floor(seconds / 60)} min ${Math.floor(seconds % 60)} s`;
+    return `${Math.floor(seconds / 3600)} h ${Math.floor((seconds % 3600) / 60)} min`;
+  };
+
+  // Throughput and time left, while this page moves the transfer
+  const formatStats = (transferId: string): string | null => {
+    const stats = transferStats[transferId];
+    if (!stats) return null;
+    const rate = `${formatFileSize(Math.round(stats.bytesPerSecond))}/s`;
+    return stats.etaSeconds === null ? rate : `${rate} · ${formatDuration(stats.etaSeconds)} left`;
+  };
+
   const getStatusIcon = (status: FileTransfer['status']) => {
     switch (status) {
       case 'completed':
@@ -83,6 +120,8 @@ export default function FileSharing() {
         return <Loader2 className="w-5 h-5 text-blue-500 animate-spin" />;
       case 'pending':
         return <Clock className="w-5 h-5 text-yellow-500" />;
+      case 'paused':
+        return <PauseCircle className="w-5 h-5 text-yellow-500" />;
       default:
         return <File className="w-5 h-5" />;
     }
@@ -133,6 +172,12 @@ export default function FileSharing() {
               className="hidden"
               onChange={handleFileInput}
             />
+            <input
+              ref={resumeInputRef}
+              type="file"
+              className="hidden"
+              onChange={handleResumeInput}
+            />
           </div>
 
           {/* My Transfers */}
@@ -155,18 +200,31 @@ export default function FileSharing() {
                       <Badge variant={transfer.status === 'completed' ? 'default' : 'secondary'}>
                         {transfer.status}
                       </Badge>
-                      {transfer.status === 'completed' && (
+                      {(transfer.status === 'paused' || transfer.status === 'failed') && (
+                        <Button size="sm" variant="outline" onClick={() => pickResumeFile(transfer.id)} title="Select the same file to continue where the upload stopped">
+                          Resume
+                        </Button>
+                      )}
+                      {transfer.status !== 'transferring' && transfer.status !== 'pending' && (
                         <Button size="sm" variant="ghost" onClick={() => removeFileTransfer(transfer.id)} title="Remove from list">
                           Remove
                         </Button>
                       )}
                     </div>
                   </div>
+                  {transfer.status === 'paused' && (
+                    <p className="text-xs text-muted-foreground">
+                      Stopped at {transfer.progress}%. Select the same file again to continue.
+                    </p>
+                  )}
+                  {resumeErrors[transfer.id] && (
+                    <p className="text-xs text-destructive">{resumeErrors[transfer.id]}</p>
+                  )}
                   {transfer.status === 'transferring' && (
                     <div className="space-y-1">
                       <div className="flex justify-between text-xs text-muted-foreground">
                         <span>Progress</span>
-                        <span>{transfer.progress}%</span>
+                        <span>{[formatStats(transfer.id), `${transfer.progress}%`].filter(Boolean).join(' · ')}</span>
                       </div>
                       <Progress value={transfer.progress} />
                     </div>
@@ -205,8 +263,19 @@ export default function FileSharing() {
                       {getStatusIcon(transfer.status)}
                       <div className="flex-1 min-w-0">
                         <p className="font-medium text-sm truncate">{transfer.fileName}</p>
-                        <p className="text-xs text-muted-foreground">
-                          From {transfer.senderName} • {formatFileSize(transfer.fileSize)}
+                        <p className="text-xs text-muted-foreground flex items-center gap-1">
+                          From {transfer.senderName} • {formatFileSize(transfer.fileSize)} •
+                          {transfer.signatureValid ? (
+                            <span className="inline-flex items-center gap-0.5" title="File details signed by the sender's identity key">
+                              <ShieldCheck className="w-3 h-3 text-green-500" />
+                              Verified
+                            </span>
+                          ) : (
+                            <span className="inline-flex items-center gap-0.5" title="Missing or invalid signature: sender and file details may be forged">
+                              <ShieldQuestion className="w-3 h-3" />
+                              Unverified
+                            </span>
+                          )}
                         </p>
                       </div>
                     </div>
@@ -218,7 +287,7 @@ export default function FileSharing() {
                     <div className="space-y-1">
                       <div className="flex justify-between text-xs text-muted-foreground">
                         <span>Downloading</span>
-                        <span>{transfer.progress}%</span>
+                        <span>{[formatStats(transfer.id), `${transfer.progress}%`].filter(Boolean).join(' · ')}</span>
                       </div>
                       <Progress value={transfer.progress} />
                     </div>
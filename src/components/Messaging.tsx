@@ -1,11 +1,19 @@
 "use client";
 
-import React, { useState, useRef, useEffect } from 'react';
+import React, { useState, useRef, useEffect, useLayoutEffect } from 'react';
 import { useApp } from '@/contexts/AppContext';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Input } from '@/components/ui/input';
 import { Button } from '@/components/ui/button';
 import { Badge } from '@/components/ui/badge';
+import { Sheet, SheetContent, SheetDescription, SheetHeader, SheetTitle } from '@/components/ui/sheet';
+import { HoverCard, HoverCardContent, HoverCardTrigger } from '@/components/ui/hover-card';
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
+import { countThreadReplies } from '@/lib/threads';
+import { REACTION_EMOJIS } from '@/lib/reactions';
+import type { DeliveryStatus } from '@/lib/receipts';
+import { mentionQuery, mentionsUser } from '@/lib/mentions';
+import type { Message, User } from '@/types';
 import { 
   MessageSquare, 
   Send, 
@@ -15,21 +23,63 @@ import {
   Plus,
   Image as ImageIcon,
   Mic,
-  Settings
+  Settings,
+  LogOut,
+  ShieldAlert,
+  ShieldCheck,
+  ShieldQuestion,
+  Reply,
+  Pencil,
+  Trash2,
+  SmilePlus,
+  Check,
+  CheckCheck,
+  Clock,
+  AtSign,
+  AlertTriangle,
+  X
 } from 'lucide-react';
 import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle, DialogTrigger } from '@/components/ui/dialog';
 import { Label } from '@/components/ui/label';
 import { Switch } from '@/components/ui/switch';
+import VerifyUserDialog from './VerifyUserDialog';
 
-export default function Messaging() {
-  const { currentUser, users, messages, chatRooms, fileTransfers, sendMessage, createChatRoom, generateInviteCode, joinRoomWithCode, sendFiles, kickMember, setRoomAdmin, transferRoomOwner, deleteChatRoom } = useApp();
+const RECEIPT_LABELS: Record<DeliveryStatus, string> = {
+  pending: 'Sending',
+  sent: 'Sent',
+  delivered: 'Delivered',
+  read: 'Read by everyone',
+};
+
+interface MessagingProps {
+  // Switch to this room ('global' for global), optionally scrolled to one
+  // message (a direct message or search result opened from the Dashboard)
+  openRoom?: { roomId: string; messageId?: string } | null;
+}
+
+export default function Messaging({ openRoom }: MessagingProps) {
+  const { currentUser, users, messages, chatRooms, serverInfo, fileTransfers, sendMessage, reactions, toggleReaction, editMessage, deleteMessage, canModifyMessage, outboxEntryFor, retryOutbox, discardOutbox, loadOlderMessages, hasMoreHistory, markRead, unreadCount, receiptsFor, setTyping, typingUsers, mentionCandidates, unreadMentions, hasUnreadMention, roomName, createChatRoom, openDirectMessage, createInviteCode, joinRoomWithCode, revokeInvites, sendFiles, kickMember, leaveRoom, setRoomAdmin, transferRoomOwner, deleteChatRoom, getTrustState } = useApp();
+  const [verifyUserId, setVerifyUserId] = useState<string | null>(null);
   const [selectedRoom, setSelectedRoom] = useState<string>('global');
   const [messageInput, setMessageInput] = useState('');
+  // @mention autocomplete: the token being typed and the highlighted suggestion
+  const [mentionMatch, setMentionMatch] = useState<{ start: number; query: string } | null>(null);
+  const [mentionIndex, setMentionIndex] = useState(0);
+  const messageInputRef = useRef<HTMLInputElement>(null);
+  const [replyingTo, setReplyingTo] = useState<Message | null>(null);
+  const [editingMessage, setEditingMessage] = useState<Message | null>(null);
+  // Open thread side panel: its root, composer and the reply it quotes (root when null)
+  const [threadRootId, setThreadRootId] = useState<string | null>(null);
+  const [threadInput, setThreadInput] = useState('');
+  const [threadReplyTo, setThreadReplyTo] = useState<Message | null>(null);
   const [newRoomName, setNewRoomName] = useState('');
   const [newRoomPublic, setNewRoomPublic] = useState(true);
   const [isCreatingRoom, setIsCreatingRoom] = useState(false);
   const [isJoiningRoom, setIsJoiningRoom] = useState(false);
   const [joinCode, setJoinCode] = useState('');
+  const [joinError, setJoinError] = useState<string | null>(null);
+  // Room whose invites were just revoked (confirmation in the settings dialog)
+  const [invitesRevokedFor, setInvitesRevokedFor] = useState<string | null>(null);
   const [isInviteOpen, setIsInviteOpen] = useState(false);
   const [inviteCode, setInviteCode] = useState('');
   const [copied, setCopied] = useState(false);
@@ -39,15 +89,19 @@ export default function Messaging() {
   const recordedChunksRef = useRef<Blob[]>([]);
   const fileInputRef = useRef<HTMLInputElement>(null);
   const messagesEndRef = useRef<HTMLDivElement>(null);
+  const scrollAreaRef = useRef<HTMLDivElement>(null);
+  // Scroll position before an older page was prepended, to keep the view in place
+  const prependAnchorRef = useRef<{ room: string; scrollHeight: number; scrollTop: number } | null>(null);
+  const loadingOlderRef = useRef(false);
+  const [loadingOlder, setLoadingOlder] = useState(false);
+  // Message to scroll to once it is loaded, and the one briefly highlighted
+  const [jumpTo, setJumpTo] = useState<{ roomId: string; messageId: string } | null>(null);
+  const [highlightedId, setHighlightedId] = useState<string | null>(null);
 
   const scrollToBottom = () => {
     messagesEndRef.current?.scrollIntoView({ behavior: 'smooth' });
   };
 
-  useEffect(() => {
-    scrollToBottom();
-  }, [messages]);
-
   const handleSendMessage = (e: React.FormEvent) => {
     e.preventDefault();
     if (!messageInput.trim()) return;
@@ -55,8 +109,83 @@ export default function Messaging() {
     // Prevent non-admins from posting to global
     if (selectedRoom === 'global' && !currentUser?.isAdmin) return;
 
-    sendMessage(messageInput, selectedRoom === 'global' ? undefined : selectedRoom);
+    if (editingMessage) {
+      editMessage(editingMessage.id, messageInput);
+      setEditingMessage(null);
+    } else {
+      sendMessage(messageInput, selectedRoom === 'global' ? undefined : selectedRoom, replyingTo?.id);
+    }
     setMessageInput('');
+    setMentionMatch(null);
+    setReplyingTo(null);
+    setTyping(historyRoomId, false);
+  };
+
+  // Composer changes drive our typing signal (renewed while text is present)
+  // and the @mention suggestions
+  const updateMessageInput = (value: string, caret = value.length) => {
+    setMessageInput(value);
+    setTyping(historyRoomId, value.trim() !== '');
+    setMentionMatch(mentionQuery(value, caret));
+    setMentionIndex(0);
+  };
+
+  const insertMention = (user: User) => {
+    if (!mentionMatch) return;
+    const end = mentionMatch.start + 1 + mentionMatch.query.length;
+    const caret = mentionMatch.start + user.username.length + 2;
+    setMessageInput(`${messageInput.slice(0, mentionMatch.start)}@${user.username} ${messageInput.slice(end)}`);
+    setMentionMatch(null);
+    requestAnimationFrame(() => {
+      messageInputRef.current?.focus();
+      messageInputRef.current?.setSelectionRange(caret, caret);
+    });
+  };
+
+  const handleComposerKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    if (mentionOptions.length === 0) return;
+    if (e.key === 'ArrowDown' || e.key === 'ArrowUp') {
+      e.preventDefault();
+      const step = e.key === 'ArrowDown' ? 1 : -1;
+      setMentionIndex(i => (i + step + mentionOptions.length) % mentionOptions.length);
+    } else if (e.key === 'Enter' || e.key === 'Tab') {
+      e.preventDefault();
+      insertMention(mentionOptions[Math.min(mentionIndex, mentionOptions.length - 1)]);
+    } else if (e.key === 'Escape') {
+      setMentionMatch(null);
+    }
+  };
+
+  const updateThreadInput = (value: string) => {
+    setThreadInput(value);
+    setTyping(historyRoomId, value.trim() !== '');
+  };
+
+  const startReply = (message: Message) => {
+    if (editingMessage) cancelEditing();
+    setReplyingTo(message);
+  };
+
+  const startEditing = (message: Message) => {
+    setReplyingTo(null);
+    setEditingMessage(message);
+    setMessageInput(message.content);
+  };
+
+  const cancelEditing = () => {
+    setEditingMessage(null);
+    updateMessageInput('');
+  };
+
+  const handleSendThreadReply = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!threadInput.trim() || !threadRootId) return;
+    if (selectedRoom === 'global' && !currentUser?.isAdmin) return;
+
+    sendMessage(threadInput, selectedRoom === 'global' ? undefined : selectedRoom, threadReplyTo?.id ?? threadRootId);
+    setThreadInput('');
+    setThreadReplyTo(null);
+    setTyping(historyRoomId, false);
   };
 
   const handleCreateRoom = () => {
@@ -69,10 +198,124 @@ export default function Messaging() {
   const roomMessages = selectedRoom === 'global' 
     ? messages.filter(m => !m.roomId)
     : messages.filter(m => m.roomId === selectedRoom);
+  const historyRoomId = selectedRoom === 'global' ? undefined : selectedRoom;
+  const mentionOptions = mentionMatch
+    ? mentionCandidates(historyRoomId)
+        .filter(u => [u.username, u.displayName].some(name => name.toLowerCase().startsWith(mentionMatch.query.toLowerCase())))
+        .slice(0, 6)
+    : [];
+  const newestMessageId = roomMessages[roomMessages.length - 1]?.id;
+  const oldestMessageId = roomMessages[0]?.id;
+
+  const jumpToMessage = (roomId: string, messageId: string) => {
+    setSelectedRoom(roomId);
+    setJumpTo({ roomId, messageId });
+  };
+
+  useEffect(() => {
+    if (!openRoom) return;
+    if (openRoom.messageId) jumpToMessage(openRoom.roomId, openRoom.messageId);
+    else setSelectedRoom(openRoom.roomId);
+  }, [openRoom]);
+
+  // Replies and threads belong to the room they were started in
+  useEffect(() => {
+    setReplyingTo(null);
+    setEditingMessage(null);
+    setThreadRootId(null);
+    // Stop our typing signal in the room we leave
+    const roomId = historyRoomId;
+    return () => setTyping(roomId, false);
+  }, [selectedRoom]);
+
+  // Follow new messages (and jump to the end on room switch), not prepended history
+  useEffect(() => {
+    scrollToBottom();
+  }, [selectedRoom, newestMessageId]);
+
+  useLayoutEffect(() => {
+    const el = scrollAreaRef.current;
+    const anchor = prependAnchorRef.current;
+    prependAnchorRef.current = null;
+    if (!el || !anchor || anchor.room !== selectedRoom) return;
+    el.scrollTop = el.scrollHeight - anchor.scrollHeight + anchor.scrollTop;
+  }, [oldestMessageId]);
+
+  // Infinite scroll: fetch the previous page when the top is reached, or
+  // while the loaded messages do not fill the view yet
+  const maybeLoadOlder = async () => {
+    const el = scrollAreaRef.current;
+    if (!el || loadingOlderRef.current || !hasMoreHistory(historyRoomId)) return;
+    if (el.scrollTop > 80 && el.scrollHeight > el.clientHeight) return;
+    loadingOlderRef.current = true;
+    setLoadingOlder(true);
+    prependAnchorRef.current = { room: selectedRoom, scrollHeight: el.scrollHeight, scrollTop: el.scrollTop };
+    await loadOlderMessages(historyRoomId);
+    loadingOlderRef.current = false;
+    setLoadingOlder(false);
+  };
+
+  useEffect(() => {
+    maybeLoadOlder();
+  }, [selectedRoom, roomMessages.length]);
+
+  // Jump to a message, paging back through history until it is loaded
+  useEffect(() => {
+    if (!jumpTo || jumpTo.roomId !== selectedRoom) return;
+    const el = scrollAreaRef.current?.querySelector<HTMLElement>(`[data-message-id="${CSS.escape(jumpTo.messageId)}"]`);
+    if (el) {
+      el.scrollIntoView({ block: 'center' });
+      setHighlightedId(jumpTo.messageId);
+      setJumpTo(null);
+    } else if (!hasMoreHistory(historyRoomId)) {
+      setJumpTo(null);
+    } else if (!loadingOlderRef.current) {
+      loadingOlderRef.current = true;
+      setLoadingOlder(true);
+      loadOlderMessages(historyRoomId).finally(() => {
+        loadingOlderRef.current = false;
+        setLoadingOlder(false);
+      });
+    }
+  }, [jumpTo, selectedRoom, roomMessages.length, loadingOlder]);
+
+  useEffect(() => {
+    if (!highlightedId) return;
+    const timer = setTimeout(() => setHighlightedId(null), 2000);
+    return () => clearTimeout(timer);
+  }, [highlightedId]);
+
+  // Read receipts: report the newest sequenced message that is at least half
+  // in view, while the page is visible
+  const sequencedCount = roomMessages.filter(m => m.seq !== undefined).length;
+  useEffect(() => {
+    const root = scrollAreaRef.current;
+    if (!root || typeof IntersectionObserver === 'undefined') return;
+    const visible = new Set<number>();
+    const report = () => {
+      if (document.visibilityState !== 'visible' || visible.size === 0) return;
+      markRead(historyRoomId, Math.max(...visible));
+    };
+    const observer = new IntersectionObserver(entries => {
+      for (const entry of entries) {
+        const seq = Number((entry.target as HTMLElement).dataset.seq);
+        if (entry.isIntersecting) visible.add(seq);
+        else visible.delete(seq);
+      }
+      report();
+    }, { root, threshold: 0.5 });
+    root.querySelectorAll<HTMLElement>('[data-seq]').forEach(el => observer.observe(el));
+    document.addEventListener('visibilitychange', report);
+    return () => {
+      observer.disconnect();
+      document.removeEventListener('visibilitychange', report);
+    };
+  }, [selectedRoom, sequencedCount, serverInfo]);
 
   const currentRoom = selectedRoom === 'global' ? null : chatRooms.find(r => r.id === selectedRoom) || null;
   const isRoomOwner = currentRoom ? currentRoom.createdBy === currentUser?.id : false;
   const isRoomAdmin = currentRoom ? (isRoomOwner || (currentRoom.admins || []).includes(currentUser?.id || '')) : false;
+  const invitesEnabled = !!serverInfo?.capabilities.includes('room-invites');
 
   const copyToClipboard = async (text: string) => {
     try {
@@ -133,9 +376,350 @@ export default function Messaging() {
     }
   };
 
+  const canPost = !(selectedRoom === 'global' && !currentUser?.isAdmin);
+  const threadsEnabled = !!serverInfo?.capabilities.includes('threads');
+  const reactionsEnabled = !!serverInfo?.capabilities.includes('reactions');
+  const editsEnabled = !!serverInfo?.capabilities.includes('edits');
+  // Reply counts come from the loaded messages, so heartbeat deltas keep them current
+  const replyCounts = countThreadReplies(roomMessages);
+  const threadRoot = threadRootId ? messages.find(m => m.id === threadRootId) : undefined;
+  const threadReplies = threadRootId ? roomMessages.filter(m => m.threadRootId === threadRootId) : [];
+
+  const openThread = (rootId: string) => {
+    setThreadRootId(rootId);
+    setThreadReplyTo(null);
+  };
+
+  // One-line summary of a message for quotes
+  const previewText = (message: Message) => {
+    if (message.deleted) return 'Message deleted';
+    if (message.enc) return '[Encrypted message]';
+    try {
+      const meta = JSON.parse(message.content);
+      if (meta && meta.transferId && meta.fileName) return `File: ${meta.fileName}`;
+    } catch {}
+    return message.content.length > 80 ? `${message.content.slice(0, 80)}…` : message.content;
+  };
+
+  const displayNameOf = (userId: string) =>
+    userId === currentUser?.id ? 'You' : users.find(u => u.id === userId)?.displayName || 'Unknown user';
+
+  const typists = typingUsers(historyRoomId).map(displayNameOf);
+  const typingText =
+    typists.length === 0 ? null
+    : typists.length === 1 ? `${typists[0]} is typing…`
+    : typists.length === 2 ? `${typists[0]} and ${typists[1]} are typing…`
+    : 'Several people are typing…';
+
+  const quotePreview = (messageId: string) => {
+    const parent = messages.find(m => m.id === messageId);
+    if (!parent) return <span className="italic">Original message not loaded</span>;
+    return (
+      <>
+        <span className="font-semibold">{parent.senderName}</span> {previewText(parent)}
+      </>
+    );
+  };
+
+  // Plain text messages can be edited; files and undecrypted ones cannot
+  const isEditableText = (message: Message) => {
+    if (message.enc || message.type !== 'text') return false;
+    try {
+      const meta = JSON.parse(message.content);
+      if (meta && meta.transferId) return false;
+    } catch {}
+    return true;
+  };
+
+  // Sends (and edits/deletes) the server has not confirmed: retried in the
+  // background while pending, retried or discarded by hand once failed
+  const renderOutboxState = (message: Message) => {
+    const entry = outboxEntryFor(message.id);
+    if (!entry) return null;
+    const what = entry.id === message.id ? 'Message' : 'Change';
+    if (entry.status === 'pending') {
+      return (
+        <span className="inline-flex items-center gap-0.5" title={entry.error ? `Last attempt failed: ${entry.error}` : 'Waiting for the server'}>
+          <Clock className="w-3 h-3" />
+          {entry.attempts > 0 ? 'Retrying' : 'Sending'}
+        </span>
+      );
+    }
+    return (
+      <span className="inline-flex items-center gap-1 not-italic" title={entry.error}>
+        <AlertTriangle className="w-3 h-3 text-red-400" />
+        {what} not sent
+        <button type="button" className="underline" onClick={() => retryOutbox(entry.id)}>Retry</button>
+        <button type="button" className="underline" onClick={() => discardOutbox(entry.id)}>Discard</button>
+      </span>
+    );
+  };
+
+  const renderBubble = (message: Message, inThread = false) => {
+    const isCurrentUser = message.senderId === currentUser?.id;
+    const mentionsMe = !isCurrentUser && !!currentUser && mentionsUser(message, currentUser);
+    const outboxState = isCurrentUser || message.deleted ? renderOutboxState(message) : null;
+    const receipt = isCurrentUser && !message.deleted && !outboxState ? receiptsFor(message) : null;
+    if (message.deleted) {
+      return (
+        <div key={message.id} data-seq={message.seq} data-message-id={message.id} className={`flex ${isCurrentUser ? 'justify-end' : 'justify-start'}`}>
+          <div className="max-w-[70%] rounded-lg px-4 py-2 border border-dashed text-sm italic text-muted-foreground">
+            Message deleted
+            {outboxState && <p className="text-xs mt-1">{outboxState}</p>}
+          </div>
+        </div>
+      );
+    }
+    return (
+      <div
+        key={message.id}
+        data-seq={message.seq}
+        data-message-id={message.id}
+        className={`flex ${isCurrentUser ? 'justify-end' : 'justify-start'}`}
+      >
+        <div
+          className={`max-w-[70%] rounded-lg px-4 py-2 ${
+            isCurrentUser
+              ? 'bg-primary text-primary-foreground'
+              : 'bg-muted'
+          } ${mentionsMe ? 'ring-2 ring-amber-400' : ''} ${highlightedId === message.id ? 'ring-2 ring-primary/60' : ''}`}
+        >
+          {!isCurrentUser && (
+            <p className="text-xs font-semibold mb-1 opacity-70">
+              {message.senderName}
+            </p>
+          )}
+          {message.replyTo && (
+            <button
+              type="button"
+              className="block w-full text-left text-xs border-l-2 border-current pl-2 mb-1 opacity-70 hover:opacity-100"
+              onClick={() => message.threadRootId && openThread(message.threadRootId)}
+              title="Open thread"
+            >
+              {quotePreview(message.replyTo)}
+            </button>
+          )}
+          <div className="text-sm break-words">
+            {(() => {
+              if (message.enc) {
+                // Key for this room not received yet
+                return <span className="italic opacity-70">[Encrypted message]</span>;
+              }
+              try {
+                const meta = JSON.parse(message.content);
+                if (meta && meta.transferId && meta.fileName) {
+                  const ft = fileTransfers.find(t => t.id === meta.transferId);
+                  const url = ft?.downloadUrl;
+                  if ((meta.mime || '').startsWith('image/') && url) {
+                    return (
+                      <div className="space-y-1">
+                        <img src={url} alt={meta.fileName} className="rounded max-h-64 object-contain" />
+                        <a href={url} download className="underline">{meta.fileName}</a>
+                      </div>
+                    );
+                  }
+                  if ((meta.mime || '').startsWith('audio/') && url) {
+                    return (
+                      <div className="space-y-1">
+                        <audio controls src={url} className="w-full" />
+                        <a href={url} download className="underline">{meta.fileName}</a>
+                      </div>
+                    );
+                  }
+                  // Fallback display while downloading or unknown mime
+                  return <span>File: {meta.fileName}{!url ? ' (downloading...)' : ''}</span>;
+                }
+              } catch {}
+              return <span>{message.content}</span>;
+            })()}
+          </div>
+          <p className={`text-xs mt-1 flex items-center gap-1 ${
+            isCurrentUser ? 'opacity-70' : 'text-muted-foreground'
+          }`}>
+            {new Date(message.timestamp).toLocaleTimeString([], {
+              hour: '2-digit',
+              minute: '2-digit',
+            })}
+            {message.editedAt && (
+              <HoverCard openDelay={300}>
+                <HoverCardTrigger asChild>
+                  <span className="underline decoration-dotted cursor-default">
+                    {message.editorId && message.editorId !== message.senderId ? `(edited by ${message.editorName})` : '(edited)'}
+                  </span>
+                </HoverCardTrigger>
+                <HoverCardContent className="w-72 p-3">
+                  <p className="text-sm font-medium mb-2">Edit history</p>
+                  <ul className="space-y-2 text-xs">
+                    {(message.edits ?? []).map(version => (
+                      <li key={version.id}>
+                        <p className="text-muted-foreground">
+                          {new Date(version.timestamp).toLocaleString()}
+                          {version.editorId !== message.senderId && ` · by ${version.editorName}`}
+                        </p>
+                        <p className="break-words">{version.content}</p>
+                      </li>
+                    ))}
+                    <li>
+                      <p className="text-muted-foreground">
+                        {new Date(message.editedAt).toLocaleString()} (current)
+                        {message.editorId && message.editorId !== message.senderId && ` · by ${message.editorName}`}
+                      </p>
+                      <p className="break-words">{message.content}</p>
+                    </li>
+                  </ul>
+                </HoverCardContent>
+              </HoverCard>
+            )}
+            {message.type !== 'system' && (message.sigValid ? (
+              message.editorId && message.editorId !== message.senderId ? (
+                <span className="inline-flex items-center gap-0.5" title={`Edited by a room admin: signed by ${message.editorName}'s identity key, not the sender's`}>
+                  <ShieldCheck className="w-3 h-3" />
+                  Verified (editor)
+                </span>
+              ) : (
+                <span className="inline-flex items-center gap-0.5" title="Signed by the sender's identity key">
+                  <ShieldCheck className="w-3 h-3" />
+                  Verified
+                </span>
+              )
+            ) : (
+              <span className="inline-flex items-center gap-0.5" title="Missing or invalid signature: the sender name may be forged">
+                <ShieldQuestion className="w-3 h-3" />
+                Unverified
+              </span>
+            ))}
+            {outboxState}
+            {receipt && (
+              <HoverCard openDelay={300}>
+                <HoverCardTrigger asChild>
+                  <span className="inline-flex items-center cursor-default" aria-label={RECEIPT_LABELS[receipt.status]}>
+                    {receipt.status === 'pending' ? (
+                      <Clock className="w-3 h-3" />
+                    ) : receipt.status === 'sent' ? (
+                      <Check className="w-3 h-3" />
+                    ) : (
+                      <CheckCheck className={`w-3 h-3 ${receipt.status === 'read' ? 'text-sky-400' : ''}`} />
+                    )}
+                  </span>
+                </HoverCardTrigger>
+                <HoverCardContent className="w-auto max-w-64 p-3">
+                  <p className="text-sm font-medium mb-1">{RECEIPT_LABELS[receipt.status]}</p>
+                  {receipt.seenBy.length > 0 ? (
+                    <>
+                      <p className="text-xs font-medium">Seen by</p>
+                      <ul className="text-xs text-muted-foreground space-y-0.5">
+                        {receipt.seenBy.map(uid => <li key={uid}>{displayNameOf(uid)}</li>)}
+                      </ul>
+                    </>
+                  ) : (
+                    <p className="text-xs text-muted-foreground">Not seen yet</p>
+                  )}
+                </HoverCardContent>
+              </HoverCard>
+            )}
+          </p>
+          {Object.keys(reactions[message.id] ?? {}).length > 0 && (
+            <div className="flex flex-wrap gap-1 mt-1">
+              {Object.entries(reactions[message.id]).map(([emoji, userIds]) => {
+                const mine = userIds.includes(currentUser?.id || '');
+                return (
+                  <HoverCard key={emoji} openDelay={300}>
+                    <HoverCardTrigger asChild>
+                      <button
+                        type="button"
+                        className={`inline-flex items-center gap-1 rounded-full border px-2 py-0.5 text-xs ${mine ? 'border-current font-semibold' : 'opacity-80'}`}
+                        onClick={() => canPost && toggleReaction(message.id, emoji)}
+                        aria-label={`${emoji} ${userIds.length}`}
+                      >
+                        <span>{emoji}</span>
+                        <span>{userIds.length}</span>
+                      </button>
+                    </HoverCardTrigger>
+                    <HoverCardContent className="w-auto max-w-64 p-3">
+                      <p className="text-sm font-medium mb-1">Reacted with {emoji}</p>
+                      <ul className="text-xs text-muted-foreground space-y-0.5">
+                        {userIds.map(uid => <li key={uid}>{displayNameOf(uid)}</li>)}
+                      </ul>
+                    </HoverCardContent>
+                  </HoverCard>
+                );
+              })}
+            </div>
+          )}
+          {(threadsEnabled || reactionsEnabled || editsEnabled) && message.type !== 'system' && (
+            <div className={`flex items-center gap-3 mt-1 text-xs ${isCurrentUser ? 'opacity-70' : 'text-muted-foreground'}`}>
+              {reactionsEnabled && canPost && (
+                <Popover>
+                  <PopoverTrigger asChild>
+                    <button type="button" className="inline-flex items-center gap-1 hover:underline" aria-label="Add reaction">
+                      <SmilePlus className="w-3 h-3" />
+                      React
+                    </button>
+                  </PopoverTrigger>
+                  <PopoverContent className="w-auto p-1 flex gap-1">
+                    {REACTION_EMOJIS.map(emoji => (
+                      <Button key={emoji} type="button" variant="ghost" size="icon" className="h-8 w-8 text-lg" onClick={() => toggleReaction(message.id, emoji)}>
+                        {emoji}
+                      </Button>
+                    ))}
+                  </PopoverContent>
+                </Popover>
+              )}
+              {threadsEnabled && canPost && (
+                <button type="button" className="inline-flex items-center gap-1 hover:underline" onClick={() => inThread ? setThreadReplyTo(message) : startReply(message)}>
+                  <Reply className="w-3 h-3" />
+                  Reply
+                </button>
+              )}
+              {isCurrentUser && isEditableText(message) && canModifyMessage(message) && (
+                <button type="button" className="inline-flex items-center gap-1 hover:underline" onClick={() => startEditing(message)}>
+                  <Pencil className="w-3 h-3" />
+                  Edit
+                </button>
+              )}
+              {canModifyMessage(message) && (
+                <button type="button" className="inline-flex items-center gap-1 hover:underline" onClick={() => deleteMessage(message.id)}>
+                  <Trash2 className="w-3 h-3" />
+                  Delete
+                </button>
+              )}
+              {!inThread && (replyCounts.get(message.id) ?? 0) > 0 && (
+                <button type="button" className="inline-flex items-center gap-1 hover:underline" onClick={() => openThread(message.id)}>
+                  <MessageSquare className="w-3 h-3" />
+                  {replyCounts.get(message.id)} {replyCounts.get(message.id) === 1 ? 'reply' : 'replies'}
+                </button>
+              )}
+            </div>
+          )}
+        </div>
+      </div>
+    );
+  };
+
   const userRooms = chatRooms.filter(room => 
-    room.isPublic || room.participants.includes(currentUser?.id || '')
+    !room.isDirect && (room.isPublic || room.participants.includes(currentUser?.id || ''))
   );
+  const directRooms = chatRooms.filter(room => room.isDirect && room.participants.includes(currentUser?.id || ''));
+  const directEnabled = !!serverInfo?.capabilities.includes('direct-messages');
+  const directCandidates = users.filter(u => u.status === 'online' && u.id !== currentUser?.id);
+
+  // Unread count; highlighted with @ while the room has unread mentions of us
+  const unreadBadge = (roomId?: string) => {
+    const count = unreadCount(roomId);
+    const mentioned = hasUnreadMention(roomId);
+    if (count === 0 && !mentioned) return null;
+    return (
+      <Badge variant={mentioned ? 'destructive' : 'secondary'} className="ml-auto" title={mentioned ? 'You were mentioned' : undefined}>
+        {mentioned && <AtSign className="w-3 h-3" />}
+        {count}
+      </Badge>
+    );
+  };
+
+  const startDirectMessage = async (userId: string) => {
+    const roomId = await openDirectMessage(userId);
+    if (roomId) setSelectedRoom(roomId);
+  };
 
   return (
     <div className="grid gap-6 lg:grid-cols-[300px_1fr]">
@@ -145,6 +729,35 @@ export default function Messaging() {
           <div className="flex items-center justify-between">
             <CardTitle className="text-lg">Chat Rooms</CardTitle>
             <div className="flex items-center gap-2">
+              <Popover>
+                <PopoverTrigger asChild>
+                  <Button size="sm" variant="ghost" aria-label="Unread mentions" title="Unread mentions">
+                    <AtSign className="w-4 h-4" />
+                    {unreadMentions.length > 0 && <span className="text-xs">{unreadMentions.length}</span>}
+                  </Button>
+                </PopoverTrigger>
+                <PopoverContent className="w-80 p-2">
+                  <p className="px-1 pb-1 text-sm font-medium">Mentions</p>
+                  {unreadMentions.length === 0 ? (
+                    <p className="px-1 text-xs text-muted-foreground">No unread mentions</p>
+                  ) : (
+                    <ul className="max-h-80 space-y-1 overflow-y-auto">
+                      {unreadMentions.map(m => (
+                        <li key={m.id}>
+                          <button
+                            type="button"
+                            className="w-full rounded px-2 py-1 text-left hover:bg-accent"
+                            onClick={() => jumpToMessage(m.roomId ?? 'global', m.id)}
+                          >
+                            <p className="text-xs text-muted-foreground">{m.senderName} in {roomName(m.roomId)}</p>
+                            <p className="truncate text-sm">{previewText(m)}</p>
+                          </button>
+                        </li>
+                      ))}
+                    </ul>
+                  )}
+                </PopoverContent>
+              </Popover>
               <Dialog open={isCreatingRoom} onOpenChange={setIsCreatingRoom}>
                 <DialogTrigger asChild>
                   <Button size="sm" variant="outline" aria-label="Create chat room" title="Create chat room">
@@ -199,7 +812,15 @@ export default function Messaging() {
                     <Label htmlFor="join-code">Invitation Code</Label>
                     <Input id="join-code" placeholder="Paste code" value={joinCode} onChange={(e) => setJoinCode(e.target.value)} />
                   </div>
-                  <Button className="w-full" onClick={() => { if (joinRoomWithCode(joinCode)) { setJoinCode(''); setIsJoiningRoom(false); } }}>
+                  {joinError && <p className="text-xs text-destructive">{joinError}</p>}
+                  <Button
+                    className="w-full"
+                    onClick={async () => {
+                      const error = await joinRoomWithCode(joinCode);
+                      setJoinError(error);
+                      if (!error) { setJoinCode(''); setIsJoiningRoom(false); }
+                    }}
+                  >
                     Join Room
                   </Button>
                 </div>
@@ -217,9 +838,7 @@ export default function Messaging() {
             >
               <Globe className="w-4 h-4 mr-2" />
               Global Chat
-              <Badge variant="secondary" className="ml-auto">
-                {messages.filter(m => !m.roomId).length}
-              </Badge>
+              {unreadBadge()}
             </Button>
 
             {userRooms.length > 0 && (
@@ -242,9 +861,46 @@ export default function Messaging() {
                       <Lock className="w-4 h-4 mr-2" />
                     )}
                     {room.name}
-                    <Badge variant="secondary" className="ml-auto">
-                      {messages.filter(m => m.roomId === room.id).length}
-                    </Badge>
+                    {unreadBadge(room.id)}
+                  </Button>
+                ))}
+              </>
+            )}
+
+            {directEnabled && (
+              <>
+                <div className="pt-4 pb-2 flex items-center justify-between">
+                  <p className="text-xs font-semibold text-muted-foreground uppercase">
+                    Direct Messages
+                  </p>
+                  <Popover>
+                    <PopoverTrigger asChild>
+                      <Button size="icon" variant="ghost" className="h-6 w-6" aria-label="New direct message" title="New direct message">
+                        <Plus className="w-3 h-3" />
+                      </Button>
+                    </PopoverTrigger>
+                    <PopoverContent className="w-56 p-1">
+                      {directCandidates.length === 0 ? (
+                        <p className="p-2 text-xs text-muted-foreground">No one else is online</p>
+                      ) : directCandidates.map(user => (
+                        <Button key={user.id} variant="ghost" className="w-full justify-start" onClick={() => startDirectMessage(user.id)}>
+                          {user.displayName}
+                          <span className="ml-1 text-xs text-muted-foreground">@{user.username}</span>
+                        </Button>
+                      ))}
+                    </PopoverContent>
+                  </Popover>
+                </div>
+                {directRooms.map((room) => (
+                  <Button
+                    key={room.id}
+                    variant={selectedRoom === room.id ? 'default' : 'ghost'}
+                    className="w-full justify-start"
+                    onClick={() => setSelectedRoom(room.id)}
+                  >
+                    <AtSign className="w-4 h-4 mr-2" />
+                    {roomName(room.id)}
+                    {unreadBadge(room.id)}
                   </Button>
                 ))}
               </>
@@ -259,44 +915,55 @@ export default function Messaging() {
           <div className="flex items-center justify-between gap-2">
             <CardTitle className="flex items-center gap-2">
               <MessageSquare className="w-5 h-5" />
-              {selectedRoom === 'global' ? 'Global Chat' : userRooms.find(r => r.id === selectedRoom)?.name}
+              {roomName(historyRoomId)}
             </CardTitle>
             {/* Invite & Settings */}
             <div className="flex items-center gap-2">
               {selectedRoom !== 'global' && (() => {
                 const room = chatRooms.find(r => r.id === selectedRoom);
-                if (!room || room.isPublic) return null;
+                // The server issues invite tokens to the owner and room admins only
+                if (!room || room.isPublic || room.isDirect || !isRoomAdmin || !invitesEnabled) return null;
                 return (
                   <Button
                     size="sm"
                     variant="outline"
-                    onClick={() => {
-                      const code = generateInviteCode(room.id);
-                      if (code) { setInviteCode(code); setIsInviteOpen(true); }
+                    onClick={async () => {
+                      const code = await createInviteCode(room.id);
+                      if (code) { setInviteCode(code); setIsInviteOpen(true); setInvitesRevokedFor(null); }
                     }}
                   >
                     Invite
                   </Button>
                 );
               })()}
-              {selectedRoom !== 'global' && isRoomAdmin && (
+              {selectedRoom !== 'global' && isRoomAdmin && !currentRoom?.isDirect && (
                 <Button size="sm" variant="ghost" onClick={() => setIsSettingsOpen(true)} title="Room settings">
                   <Settings className="w-4 h-4" />
                 </Button>
               )}
+              {currentRoom && !currentRoom.isDirect && !isRoomOwner && currentRoom.participants.includes(currentUser?.id || '') && (
+                <Button
+                  size="sm"
+                  variant="ghost"
+                  onClick={async () => { if (await leaveRoom(currentRoom.id)) setSelectedRoom('global'); }}
+                  title="Leave room"
+                >
+                  <LogOut className="w-4 h-4" />
+                </Button>
+              )}
             </div>
           </div>
           <CardDescription>
             {selectedRoom === 'global' 
               ? (currentUser?.isAdmin ? 'Broadcast messages to all users on the network' : 'Read-only global announcements')
-              : 'Room conversation'}
+              : currentRoom?.isDirect ? 'Direct messages, encrypted with a key only the two of you can derive' : 'Room conversation'}
           </CardDescription>
           {/* Invite dialog */}
           <Dialog open={isInviteOpen} onOpenChange={setIsInviteOpen}>
             <DialogContent>
               <DialogHeader>
                 <DialogTitle>Share Invitation</DialogTitle>
-                <DialogDescription>Share this code with someone to join the room</DialogDescription>
+                <DialogDescription>Share this code with someone to join the room. It works for 24 hours, or until invites are revoked in the room settings.</DialogDescription>
               </DialogHeader>
               <div className="space-y-3 pt-2">
                 <Input value={inviteCode} readOnly />
@@ -310,8 +977,11 @@ export default function Messaging() {
         
         <CardContent className="flex-1 flex flex-col min-h-0 overflow-hidden">
           {/* Messages Area */}
-          <div className="flex-1 overflow-y-auto pr-2">
+          <div ref={scrollAreaRef} onScroll={maybeLoadOlder} className="flex-1 overflow-y-auto pr-2">
             <div className="space-y-4 pb-4">
+              {loadingOlder && (
+                <p className="text-center text-xs text-muted-foreground">Loading older messages...</p>
+              )}
               {roomMessages.length === 0 ? (
                 <div className="text-center py-12 text-muted-foreground">
                   <MessageSquare className="w-12 h-12 mx-auto mb-4 opacity-50" />
@@ -319,72 +989,53 @@ export default function Messaging() {
                   <p className="text-sm mt-2">Start the conversation!</p>
                 </div>
               ) : (
-                roomMessages.map((message) => {
-                  const isCurrentUser = message.senderId === currentUser?.id;
-                  return (
-                    <div
-                      key={message.id}
-                      className={`flex ${isCurrentUser ? 'justify-end' : 'justify-start'}`}
-                    >
-                      <div
-                        className={`max-w-[70%] rounded-lg px-4 py-2 ${
-                          isCurrentUser
-                            ? 'bg-primary text-primary-foreground'
-                            : 'bg-muted'
-                        }`}
-                      >
-                        {!isCurrentUser && (
-                          <p className="text-xs font-semibold mb-1 opacity-70">
-                            {message.senderName}
-                          </p>
-                        )}
-                        <div className="text-sm break-words">
-                          {(() => {
-                            try {
-                              const meta = JSON.parse(message.content);
-                              if (meta && meta.transferId && meta.fileName) {
-                                const ft = fileTransfers.find(t => t.id === meta.transferId);
-                                const url = ft?.downloadUrl;
-                                if ((meta.mime || '').startsWith('image/') && url) {
-                                  return (
-                                    <div className="space-y-1">
-                                      <img src={url} alt={meta.fileName} className="rounded max-h-64 object-contain" />
-                                      <a href={url} download className="underline">{meta.fileName}</a>
-                                    </div>
-                                  );
-                                }
-                                if ((meta.mime || '').startsWith('audio/') && url) {
-                                  return (
-                                    <div className="space-y-1">
-                                      <audio controls src={url} className="w-full" />
-                                      <a href={url} download className="underline">{meta.fileName}</a>
-                                    </div>
-                                  );
-                                }
-                                // Fallback display while downloading or unknown mime
-                                return <span>File: {meta.fileName}{!url ? ' (downloading...)' : ''}</span>;
-                              }
-                            } catch {}
-                            return <span>{message.content}</span>;
-                          })()}
-                        </div>
-                        <p className={`text-xs mt-1 ${
-                          isCurrentUser ? 'opacity-70' : 'text-muted-foreground'
-                        }`}>
-                          {new Date(message.timestamp).toLocaleTimeString([], {
-                            hour: '2-digit',
-                            minute: '2-digit',
-                          })}
-                        </p>
-                      </div>
-                    </div>
-                  );
-                })
+                roomMessages.map((message) => renderBubble(message))
               )}
               <div ref={messagesEndRef} />
             </div>
           </div>
 
+          {typingText && (
+            <p className="pt-1 text-xs italic text-muted-foreground" aria-live="polite">{typingText}</p>
+          )}
+
+          {editingMessage && (
+            <div className="flex items-center gap-2 pt-2 border-t text-xs text-muted-foreground">
+              <Pencil className="w-3 h-3 shrink-0" />
+              <div className="flex-1 truncate">Editing message</div>
+              <Button type="button" variant="ghost" size="icon" className="h-6 w-6" onClick={cancelEditing} aria-label="Cancel edit">
+                <X className="w-3 h-3" />
+              </Button>
+            </div>
+          )}
+          {replyingTo && (
+            <div className="flex items-center gap-2 pt-2 border-t text-xs text-muted-foreground">
+              <Reply className="w-3 h-3 shrink-0" />
+              <div className="flex-1 truncate">Replying to {quotePreview(replyingTo.id)}</div>
+              <Button type="button" variant="ghost" size="icon" className="h-6 w-6" onClick={() => setReplyingTo(null)} aria-label="Cancel reply">
+                <X className="w-3 h-3" />
+              </Button>
+            </div>
+          )}
+
+          {mentionOptions.length > 0 && (
+            <div className="mt-2 rounded-md border p-1 text-sm" role="listbox" aria-label="Mention suggestions">
+              {mentionOptions.map((user, i) => (
+                <button
+                  key={user.id}
+                  type="button"
+                  role="option"
+                  aria-selected={i === mentionIndex}
+                  className={`w-full rounded px-2 py-1 text-left ${i === mentionIndex ? 'bg-accent' : ''}`}
+                  // Keep focus (and the caret) in the composer
+                  onMouseDown={(e) => { e.preventDefault(); insertMention(user); }}
+                >
+                  {user.displayName} <span className="text-xs text-muted-foreground">@{user.username}</span>
+                </button>
+              ))}
+            </div>
+          )}
+
           {/* Message Input */}
           <form onSubmit={handleSendMessage} className="flex gap-2 pt-4 border-t items-center">
             <input ref={fileInputRef} type="file" accept="image/*" className="hidden" onChange={onFilesSelected} />
@@ -397,7 +1048,9 @@ export default function Messaging() {
             <Input
               placeholder={selectedRoom === 'global' && !currentUser?.isAdmin ? 'Global chat is read-only' : 'Type a message...'}
               value={messageInput}
-              onChange={(e) => setMessageInput(e.target.value)}
+              ref={messageInputRef}
+              onChange={(e) => updateMessageInput(e.target.value, e.target.selectionStart ?? undefined)}
+              onKeyDown={handleComposerKeyDown}
               className="flex-1"
               disabled={selectedRoom === 'global' && !currentUser?.isAdmin}
               title={selectedRoom === 'global' && !currentUser?.isAdmin ? 'Only admins can post in Global' : undefined}
@@ -407,6 +1060,47 @@ export default function Messaging() {
             </Button>
           </form>
         </CardContent>
+          {/* Thread Panel */}
+          <Sheet open={!!threadRootId} onOpenChange={(open) => { if (!open) setThreadRootId(null); }}>
+            <SheetContent className="w-full sm:max-w-md">
+              <SheetHeader>
+                <SheetTitle>Thread</SheetTitle>
+                <SheetDescription>
+                  {threadReplies.length} {threadReplies.length === 1 ? 'reply' : 'replies'}
+                </SheetDescription>
+              </SheetHeader>
+              <div className="flex-1 overflow-y-auto px-4 space-y-4">
+                {threadRoot ? renderBubble(threadRoot, true) : (
+                  <p className="text-xs italic text-muted-foreground">Original message not loaded</p>
+                )}
+                {threadReplies.map((message) => renderBubble(message, true))}
+              </div>
+              {canPost && (
+                <form onSubmit={handleSendThreadReply} className="p-4 border-t space-y-2">
+                  {threadReplyTo && (
+                    <div className="flex items-center gap-2 text-xs text-muted-foreground">
+                      <div className="flex-1 truncate">Replying to {quotePreview(threadReplyTo.id)}</div>
+                      <Button type="button" variant="ghost" size="icon" className="h-6 w-6" onClick={() => setThreadReplyTo(null)} aria-label="Cancel reply">
+                        <X className="w-3 h-3" />
+                      </Button>
+                    </div>
+                  )}
+                  <div className="flex gap-2">
+                    <Input
+                      placeholder="Reply in thread..."
+                      value={threadInput}
+                      onChange={(e) => updateThreadInput(e.target.value)}
+                      className="flex-1"
+                    />
+                    <Button type="submit" size="icon" aria-label="Send reply" title="Send reply">
+                      <Send className="w-4 h-4" />
+                    </Button>
+                  </div>
+                </form>
+              )}
+            </SheetContent>
+          </Sheet>
+
           {/* Room Settings Dialog */}
           <Dialog open={isSettingsOpen} onOpenChange={setIsSettingsOpen}>
             <DialogContent>
@@ -423,6 +1117,7 @@ export default function Messaging() {
                         const u = users.find(x => x.id === uid);
                         const isOwnerRow = uid === currentRoom.createdBy;
                         const isAdminRow = (currentRoom.admins || []).includes(uid);
+                        const trust = getTrustState(uid);
                         return (
                           <div key={uid} className="flex items-center gap-2 justify-between border rounded p-2">
                             <div>
@@ -430,6 +1125,18 @@ export default function Messaging() {
                               <p className="text-xs text-muted-foreground">{isOwnerRow ? 'Owner' : isAdminRow ? 'Admin' : 'Member'}</p>
                             </div>
                             <div className="flex items-center gap-2">
+                              {uid !== currentUser?.id && trust !== 'no_key' && (
+                                <Button
+                                  size="icon"
+                                  variant="ghost"
+                                  onClick={() => setVerifyUserId(uid)}
+                                  title={trust === 'verified' ? 'Verified' : trust === 'changed' ? 'Identity key changed' : 'Verify safety number'}
+                                >
+                                  {trust === 'changed'
+                                    ? <ShieldAlert className="w-4 h-4 text-destructive" />
+                                    : <ShieldCheck className={`w-4 h-4 ${trust === 'verified' ? 'text-green-500' : 'text-muted-foreground'}`} />}
+                                </Button>
+                              )}
                               {isRoomAdmin && !isOwnerRow && (
                                 <>
                                   <Button size="sm" variant="outline" onClick={() => kickMember(currentRoom.id, uid)}>Kick</Button>
@@ -447,6 +1154,19 @@ export default function Messaging() {
                       })}
                     </div>
                   </div>
+                  {isRoomAdmin && !currentRoom.isPublic && invitesEnabled && (
+                    <div className="flex items-center justify-between gap-2 pt-2">
+                      <p className="text-xs text-muted-foreground">Invalidate every invitation code handed out for this room</p>
+                      <Button
+                        size="sm"
+                        variant="outline"
+                        disabled={invitesRevokedFor === currentRoom.id}
+                        onClick={async () => { if (await revokeInvites(currentRoom.id)) setInvitesRevokedFor(currentRoom.id); }}
+                      >
+                        {invitesRevokedFor === currentRoom.id ? 'Invites revoked' : 'Revoke invites'}
+                      </Button>
+                    </div>
+                  )}
                   {isRoomOwner && (
                     <div className="pt-2">
                       <Button variant="destructive" onClick={() => { deleteChatRoom(currentRoom.id); setIsSettingsOpen(false); setSelectedRoom('global'); }}>Delete Room</Button>
@@ -456,6 +1176,7 @@ export default function Messaging() {
               )}
             </DialogContent>
           </Dialog>
+          <VerifyUserDialog userId={verifyUserId} onOpenChange={(open) => { if (!open) setVerifyUserId(null); }} />
       </Card>
     </div>
   );
@@ -0,0 +1,37 @@
+"use client";
+
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { useApp } from '@/contexts/AppContext';
+import { AlertTriangle } from 'lucide-react';
+import { PROTOCOL_VERSION } from '@/lib/protocol';
+
+// Shown instead of the app when the handshake found the server and client incompatible
+export default function ProtocolMismatch({ message }: { message: string }) {
+  const { serverInfo } = useApp();
+
+  return (
+    <div className="min-h-screen flex items-center justify-center p-4">
+      <div className="w-full max-w-md">
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2">
+              <AlertTriangle className="w-5 h-5 text-destructive" />
+              Upgrade required
+            </CardTitle>
+            <CardDescription>{message}</CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <p className="text-sm text-muted-foreground">
+              This app speaks protocol v{PROTOCOL_VERSION}
+              {serverInfo && `, the server v${serverInfo.protocolVersion} (accepts v${serverInfo.minProtocolVersion}+)`}.
+            </p>
+            <Button className="w-full" onClick={() => window.location.reload()}>
+              Reload
+            </Button>
+          </CardContent>
+        </Card>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,116 @@
+"use client";
+
+import React, { useEffect, useState } from 'react';
+import { useApp } from '@/contexts/AppContext';
+import { GLOBAL_ROOM_ID } from '@/lib/crypto';
+import type { SearchDoc } from '@/lib/search-index';
+import { Command, CommandEmpty, CommandGroup, CommandInput, CommandItem, CommandList } from '@/components/ui/command';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Input } from '@/components/ui/input';
+import { FileIcon, MessageSquare } from 'lucide-react';
+
+const ALL = 'all';
+
+interface SearchPaletteProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  onSelect: (hit: SearchDoc) => void;
+}
+
+// Searches the local index of decrypted messages; nothing is sent to the server
+export default function SearchPalette({ open, onOpenChange, onSelect }: SearchPaletteProps) {
+  const { currentUser, users, messages, chatRooms, searchMessages, roomName } = useApp();
+  const [query, setQuery] = useState('');
+  const [roomKey, setRoomKey] = useState(ALL);
+  const [senderId, setSenderId] = useState(ALL);
+  const [from, setFrom] = useState('');
+  const [to, setTo] = useState('');
+  const [results, setResults] = useState<SearchDoc[]>([]);
+
+  const rooms = chatRooms.filter(room => room.isPublic || room.participants.includes(currentUser?.id || ''));
+  // Everyone we have messages from, online or not
+  const senders = new Map(messages.map(m => [m.senderId, m.senderName]));
+  users.forEach(u => senders.set(u.id, u.displayName));
+
+  useEffect(() => {
+    let cancelled = false;
+    const timer = setTimeout(() => {
+      searchMessages(query, {
+        roomKey: roomKey === ALL ? undefined : roomKey,
+        senderId: senderId === ALL ? undefined : senderId,
+        from: from ? new Date(`${from}T00:00:00`).getTime() : undefined,
+        to: to ? new Date(`${to}T23:59:59.999`).getTime() : undefined,
+      }).then(hits => { if (!cancelled) setResults(hits); });
+    }, 150);
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+    };
+  }, [query, roomKey, senderId, from, to, currentUser?.id]);
+
+  const choose = (hit: SearchDoc) => {
+    onOpenChange(false);
+    onSelect(hit);
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="overflow-hidden p-0 sm:max-w-2xl">
+        <DialogHeader className="sr-only">
+          <DialogTitle>Search messages</DialogTitle>
+          <DialogDescription>Search decrypted messages and file names on this device</DialogDescription>
+        </DialogHeader>
+        {/* Results come from the index already ranked, so cmdk must not filter them again */}
+        <Command shouldFilter={false}>
+          <CommandInput value={query} onValueChange={setQuery} placeholder="Search messages and files..." />
+          <div className="flex flex-wrap items-center gap-2 border-b p-2">
+            <Select value={roomKey} onValueChange={setRoomKey}>
+              <SelectTrigger size="sm" className="w-40">
+                <SelectValue placeholder="Room" />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={ALL}>All rooms</SelectItem>
+                <SelectItem value={GLOBAL_ROOM_ID}>{roomName()}</SelectItem>
+                {rooms.map(room => (
+                  <SelectItem key={room.id} value={room.id}>{roomName(room.id)}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Select value={senderId} onValueChange={setSenderId}>
+              <SelectTrigger size="sm" className="w-40">
+                <SelectValue placeholder="Sender" />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={ALL}>Anyone</SelectItem>
+                {Array.from(senders, ([id, name]) => (
+                  <SelectItem key={id} value={id}>{id === currentUser?.id ? `${name} (you)` : name}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Input type="date" value={from} onChange={(e) => setFrom(e.target.value)} className="h-8 w-36" aria-label="From date" />
+            <Input type="date" value={to} onChange={(e) => setTo(e.target.value)} className="h-8 w-36" aria-label="To date" />
+          </div>
+          <CommandList className="max-h-96">
+            <CommandEmpty>{query.trim() ? 'No matching messages' : 'Type to search'}</CommandEmpty>
+            {results.length > 0 && (
+              <CommandGroup heading="Messages">
+                {results.map(hit => (
+                  <CommandItem key={hit.id} value={hit.id} onSelect={() => choose(hit)} className="items-start">
+                    {hit.kind === 'file' ? <FileIcon className="mt-0.5" /> : <MessageSquare className="mt-0.5" />}
+                    <div className="min-w-0 flex-1">
+                      <p className="text-xs text-muted-foreground">
+                        {hit.senderName} in {roomName(hit.roomKey === GLOBAL_ROOM_ID ? undefined : hit.roomKey)} · {new Date(hit.timestamp).toLocaleString()}
+                      </p>
+                      <p className="truncate text-sm">{hit.text}</p>
+                    </div>
+                  </CommandItem>
+                ))}
+              </CommandGroup>
+            )}
+          </CommandList>
+        </Command>
+      </DialogContent>
+    </Dialog>
+  );
+}
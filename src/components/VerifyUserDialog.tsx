@@ -0,0 +1,85 @@
+"use client";
+
+import React, { useEffect, useState } from 'react';
+import { useApp } from '@/contexts/AppContext';
+import type { SafetyNumber } from '@/lib/crypto';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { ShieldAlert, ShieldCheck, ShieldQuestion } from 'lucide-react';
+
+// Compare safety numbers in person (or over a trusted call), then pin the key
+export default function VerifyUserDialog({ userId, onOpenChange }: { userId: string | null; onOpenChange: (open: boolean) => void }) {
+  const { users, getTrustState, getSafetyNumber, verifyUser, unverifyUser } = useApp();
+  const [safety, setSafety] = useState<SafetyNumber | null>(null);
+  const [loading, setLoading] = useState(false);
+
+  const user = users.find(u => u.id === userId);
+  const trust = userId ? getTrustState(userId) : 'no_key';
+
+  useEffect(() => {
+    let cancelled = false;
+    setSafety(null);
+    if (!userId) return;
+    setLoading(true);
+    getSafetyNumber(userId)
+      .then((s) => { if (!cancelled) setSafety(s); })
+      .catch((e) => console.warn('Failed to compute safety number:', e))
+      .finally(() => { if (!cancelled) setLoading(false); });
+    return () => { cancelled = true; };
+  // Recompute when the reported key changes
+  }, [userId, user?.publicKeyJwk?.x, user?.publicKeyJwk?.y]);
+
+  const groups = safety ? safety.digits.match(/.{5}/g) || [] : [];
+
+  return (
+    <Dialog open={!!userId} onOpenChange={onOpenChange}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            Verify {user?.displayName || userId}
+            {trust === 'verified' && <Badge variant="secondary" className="text-xs"><ShieldCheck className="w-3 h-3 mr-1 text-green-500" />Verified</Badge>}
+            {trust === 'changed' && <Badge variant="destructive" className="text-xs"><ShieldAlert className="w-3 h-3 mr-1" />Key changed</Badge>}
+            {trust === 'unverified' && <Badge variant="outline" className="text-xs"><ShieldQuestion className="w-3 h-3 mr-1" />Unverified</Badge>}
+          </DialogTitle>
+          <DialogDescription>
+            Compare these numbers or words with {user?.displayName || 'the other user'} on their screen. If they match, nobody is intercepting your encryption keys.
+          </DialogDescription>
+        </DialogHeader>
+        {trust === 'changed' && (
+          <div className="rounded border border-destructive/50 bg-destructive/10 p-3 text-sm text-destructive">
+            This user&apos;s identity key changed since you verified it. They may have reinstalled or cleared their browser, or someone may be intercepting the connection. Room keys are not sent to them until you verify again.
+          </div>
+        )}
+        {!user?.publicKeyJwk ? (
+          <p className="text-sm text-muted-foreground">This user has not published an identity key yet (they need to be online).</p>
+        ) : loading || !safety ? (
+          <p className="text-sm text-muted-foreground">Computing safety number…</p>
+        ) : (
+          <div className="space-y-4">
+            <div className="grid grid-cols-4 gap-2 font-mono text-lg text-center">
+              {groups.map((g, i) => <span key={i}>{g}</span>)}
+            </div>
+            <div className="flex flex-wrap justify-center gap-2">
+              {safety.words.map((w, i) => <Badge key={i} variant="outline" className="text-sm">{w}</Badge>)}
+            </div>
+          </div>
+        )}
+        <div className="flex justify-end gap-2 pt-2">
+          {(trust === 'verified' || trust === 'changed') && (
+            <Button variant="ghost" onClick={() => userId && unverifyUser(userId)}>Clear verification</Button>
+          )}
+          {trust !== 'verified' && (
+            <Button
+              variant={trust === 'changed' ? 'destructive' : 'default'}
+              disabled={!safety}
+              onClick={async () => { if (userId && await verifyUser(userId)) onOpenChange(false); }}
+            >
+              {trust === 'changed' ? 'Numbers match, trust new key' : 'Numbers match, mark verified'}
+            </Button>
+          )}
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -1,15 +1,29 @@
 "use client";
 
-import React, { createContext, useContext, useState, useEffect, ReactNode, useRef } from 'react';
-import { User, Device, Message, FileTransfer, ActivityLog, ChatRoom } from '@/types';
-import { storage } from '@/lib/local-storage';
-import type { JWK } from '@/lib/crypto';
+import React, { createContext, useContext, useState, useEffect, ReactNode, useRef, useMemo } from 'react';
+import { User, Device, Message, FileTransfer, ActivityLog, ChatRoom, TrustState } from '@/types';
+import { mergeMessages, setStorageAccount, storage } from '@/lib/local-storage';
+import { decodeMessageBody, encodeMessageBody, threadRootOf } from '@/lib/threads';
+import type { MessageBody } from '@/lib/threads';
+import { aggregateReactions } from '@/lib/reactions';
+import type { ReactionEvent, ReactionSummary } from '@/lib/reactions';
+import { applyEdits, isEditable, tombstone } from '@/lib/edits';
+import { deliveryStatus, mergeReceipt, readSeq, receiptKey, seenBy } from '@/lib/receipts';
+import type { DeliveryStatus } from '@/lib/receipts';
+import { callAction, downloadChunkBytes, toActionResult, uploadChunkBytes } from '@/lib/api-client';
+import type { ActionResult, ChunkBytesResult } from '@/lib/api-client';
+import { isTransientFailure, loadOutbox, MAX_ATTEMPTS, retryDelay, saveOutbox } from '@/lib/outbox';
+import type { OutboxAction, OutboxEntry, OutboxItem } from '@/lib/outbox';
+import { CAPABILITIES, PROTOCOL_VERSION, serverIncompatibility, TYPING_TTL_MS } from '@/lib/protocol';
+import type { ActionPayload, ActionType, ApiResponse, Capability, Receipt, ServerInfo, TypingSignal } from '@/lib/protocol';
+import type { JWK, RoomKeyEnvelope, SafetyNumber, SenderKeyEnvelope, TrustedKeys, UserKeyPair } from '@/lib/crypto';
 import {
+  GLOBAL_ROOM_ID,
   generateECDH,
   generateRoomKey,
   exportAesJwk,
   importAesJwk,
-  loadRoomKeyJwk,
+  loadRoomKeyJwks,
   saveRoomKeyJwk,
   loadUserKeyPair,
   saveUserKeyPair,
@@ -17,12 +31,39 @@ import {
   unpackRoomKeyFromSender,
   aesEncryptString,
   aesDecryptString,
-  aesEncryptBytes,
-  aesDecryptBytes,
+  aesEncryptRaw,
+  aesDecryptRaw,
   bytesToBase64,
   base64ToBytes,
   hasSubtle,
+  publicKeyFingerprint,
+  computeSafetyNumber,
+  loadTrustedKeys,
+  saveTrustedKeys,
+  generateSigningKeyPair,
+  signBytes,
+  verifyBytes,
+  signedMessageBytes,
+  signedManifestBytes,
+  chunkAad,
+  loadKnownSigningKeys,
+  saveKnownSigningKeys,
+  packSenderKeyForRecipient,
+  unpackSenderKeyFromSender,
+  deriveDirectKey,
 } from '@/lib/crypto';
+import { directPeer } from '@/lib/direct-messages';
+import { mentionsUser, resolveMentions } from '@/lib/mentions';
+import { searchIndex, updateSearchIndex } from '@/lib/search-index';
+import { deleteChunks, loadChunks, saveChunk, storedChunkIndices } from '@/lib/transfer-store';
+import { createRateMeter, MIN_CHUNK_SIZE, pickChunkSize, runPipeline, transferConcurrency } from '@/lib/transfer-pipeline';
+import type { ChunkOutcome, TransferStats } from '@/lib/transfer-pipeline';
+import type { SearchDoc, SearchFilters } from '@/lib/search-index';
+import type { PushEvent } from '@/lib/realtime';
+import { ensureOwnChain, getOwnChain, getOwnChains, nextOwnMessageKey, storeReceivedChain, takeMessageKey } from '@/lib/sender-keys';
+
+// Identity keys by account id, as last registered with the server
+type IdentityKeys = Record<string, { publicKeyJwk?: JWK; signingKeyJwk?: JWK }>;
 
 interface AppContextType {
   currentUser: User | null;
@@ -32,25 +73,86 @@ interface AppContextType {
   fileTransfers: FileTransfer[];
   activityLogs: ActivityLog[];
   chatRooms: ChatRoom[];
-  login: (username: string, password: string) => boolean;
-  register: (username: string, password: string, displayName: string) => boolean;
+  // Resolve to an error message, or null once signed in
+  login: (username: string, password: string) => Promise<string | null>;
+  register: (username: string, password: string, displayName: string) => Promise<string | null>;
   logout: () => void;
-  sendMessage: (content: string, roomId?: string) => void;
+  // replyTo: id of the message answered (joins its thread)
+  sendMessage: (content: string, roomId?: string, replyTo?: string) => void;
+  // Current reactions per message; messages above exclude the reaction events
+  reactions: ReactionSummary;
+  toggleReaction: (messageId: string, emoji: string) => Promise<void>;
+  // Allowed for the sender, or an admin of the message's room
+  editMessage: (messageId: string, content: string) => Promise<void>;
+  deleteMessage: (messageId: string) => Promise<void>;
+  canModifyMessage: (message: Message) => boolean;
+  // Unconfirmed send of (or edit/delete event on) a message of ours; failed
+  // entries can be retried or discarded
+  outboxEntryFor: (messageId: string) => OutboxEntry | undefined;
+  retryOutbox: (entryId: string) => void;
+  discardOutbox: (entryId: string) => void;
+  // Page older messages of a room (global when undefined); false once none are left
+  loadOlderMessages: (roomId?: string) => Promise<boolean>;
+  hasMoreHistory: (roomId?: string) => boolean;
+  // Receipts: report what was seen, count what was not, and see who got our messages
+  markRead: (roomId: string | undefined, seq: number) => void;
+  unreadCount: (roomId?: string) => number;
+  receiptsFor: (message: Message) => { status: DeliveryStatus; seenBy: string[] } | null;
+  // Who can be @mentioned in a room (online readers other than us), and the
+  // messages mentioning us after our read position, newest first
+  mentionCandidates: (roomId?: string) => User[];
+  unreadMentions: Message[];
+  hasUnreadMention: (roomId?: string) => boolean;
+  // Local full-text search over decrypted messages and file names (newest first)
+  searchMessages: (query: string, filters?: SearchFilters) => Promise<SearchDoc[]>;
+  // Display name of a room; direct rooms are named after the other member
+  roomName: (roomId?: string) => string;
+  // Ephemeral typing signals: report our composer state, list who else is typing
+  setTyping: (roomId: string | undefined, typing: boolean) => void;
+  typingUsers: (roomId?: string) => string[];
   addFileTransfer: (transfer: FileTransfer) => void;
   updateFileTransfer: (transferId: string, updates: Partial<FileTransfer>) => void;
   removeFileTransfer: (transferId: string) => void;
   createChatRoom: (name: string, isPublic: boolean) => Promise<void>;
-  generateInviteCode: (roomId: string) => string | null;
-  joinRoomWithCode: (code: string) => boolean;
+  // Open (creating on first use) the 1:1 room with userId; resolves to its id
+  openDirectMessage: (userId: string) => Promise<string | null>;
+  // Invite codes to private rooms (issued by the server to owners and room
+  // admins); joining resolves to an error message, or null once joined
+  createInviteCode: (roomId: string) => Promise<string | null>;
+  joinRoomWithCode: (code: string) => Promise<string | null>;
+  revokeInvites: (roomId: string) => Promise<boolean>;
   simulateDeviceDiscovery: () => void;
   sendFiles: (files: FileList | File[], roomId?: string) => Promise<string[]>;
+  // Continue a paused or failed upload of ours with the re-selected file;
+  // resolves to an error message, or null once the upload ran
+  resumeUpload: (transferId: string, file: File) => Promise<string | null>;
+  // Throughput and ETA of the transfers this page is moving right now, by id
+  transferStats: Record<string, TransferStats>;
   // Admin operations
   kickMember: (roomId: string, userId: string) => Promise<boolean>;
+  leaveRoom: (roomId: string) => Promise<boolean>;
   setRoomAdmin: (roomId: string, userId: string, make: boolean) => Promise<boolean>;
   transferRoomOwner: (roomId: string, newOwnerId: string) => Promise<boolean>;
   deleteChatRoom: (roomId: string) => Promise<boolean>;
+  // Live transport in use: 'websocket' push, 'sse' stream, or heartbeat 'polling' fallback
+  transport: 'websocket' | 'sse' | 'polling';
+  // Identity verification: pin a user's key after comparing safety numbers
+  getTrustState: (userId: string) => TrustState;
+  getSafetyNumber: (userId: string) => Promise<SafetyNumber | null>;
+  verifyUser: (userId: string) => Promise<boolean>;
+  unverifyUser: (userId: string) => void;
+  // Verified users whose reported key no longer matches (room keys are withheld)
+  keyChangedUserIds: string[];
+  // Handshake result: what the server speaks, and why we refuse it (if we do)
+  serverInfo: ServerInfo | null;
+  protocolError: string | null;
 }
 
+// Socket replies slower than this count as lost (the send is retried)
+const SOCKET_REPLY_TIMEOUT_MS = 10000;
+// Transfer progress and stats are published at most this often
+const TRANSFER_STATS_INTERVAL_MS = 250;
+
 const AppContext = createContext<AppContextType | undefined>(undefined);
 
 export const useApp = () => {
@@ -67,35 +169,232 @@ export const AppProvider = ({ children }: { children: ReactNode }) => {
   const [devices, setDevices] = useState<Device[]>([]);
   const [messages, setMessages] = useState<Message[]>([]);
   const [fileTransfers, setFileTransfers] = useState<FileTransfer[]>([]);
+  const [transferStats, setTransferStats] = useState<Record<string, TransferStats>>({});
+  // Upload throughput seen last in this session; sizes the chunks of the next upload
+  const lastUploadRateRef = useRef<number | undefined>(undefined);
+  // Transfers with a download pipeline running (one at a time per transfer)
+  const activeDownloadsRef = useRef<Set<string>>(new Set());
   const [activityLogs, setActivityLogs] = useState<ActivityLog[]>([]);
   const [chatRooms, setChatRooms] = useState<ChatRoom[]>([]);
   const [lastSeq, setLastSeq] = useState<number>(0);
+  // Rooms (GLOBAL_ROOM_ID for global) whose history has been paged back to the start
+  const [historyComplete, setHistoryComplete] = useState<Record<string, boolean>>({});
+  // Delivered/read positions per user id (ours included)
+  const [receipts, setReceipts] = useState<Record<string, Receipt>>({});
+  // Others typing: room id (GLOBAL_ROOM_ID for global) -> user id -> local expiry
+  const [typing, setTypingState] = useState<Record<string, Record<string, number>>>({});
+  const [transport, setTransport] = useState<'websocket' | 'sse' | 'polling'>('polling');
+  const [serverInfo, setServerInfo] = useState<ServerInfo | null>(null);
+  const [protocolError, setProtocolError] = useState<string | null>(null);
+  const socketRef = useRef<WebSocket | null>(null);
+  // Socket reply frames awaited by frame id
+  const pendingRepliesRef = useRef<Map<string, (reply: { status: number; body: unknown }) => void>>(new Map());
+  // Actions the server has not confirmed yet (mirrored in the ref for the flush loop)
+  const [outbox, setOutbox] = useState<OutboxEntry[]>([]);
+  const outboxRef = useRef<OutboxEntry[]>([]);
+  const flushingOutboxRef = useRef(false);
+  const flushOutboxRef = useRef<(force?: boolean) => Promise<void>>(async () => {});
+  const lastSeqRef = useRef(0);
+  // Highest read seq reported per room (markRead runs from observers holding old renders)
+  const reportedReadRef = useRef<Record<string, number>>({});
+  // Search index state per message id (content version last written)
+  const indexedRef = useRef<{ userId?: string; versions: Map<string, string> }>({ versions: new Map() });
+  // Room we last reported typing in, and when (renewals are throttled)
+  const typingSentRef = useRef<{ roomId?: string; at: number } | null>(null);
+  // Latest handlers for long-lived timers/sockets (avoid stale closures)
+  const syncRef = useRef<() => Promise<void>>(async () => {});
+  const pushHandlerRef = useRef<(event: PushEvent) => Promise<void>>(async () => {});
   // E2E keys
-  const [roomKey, setRoomKey] = useState<CryptoKey | null>(null);
-  const [userKeyPair, setUserKeyPair] = useState<{ publicJwk: JWK; privateJwk: JWK } | null>(null);
-  // Track who we've sent the room key to (session scope)
+  // One AES key ring per room id (GLOBAL_ROOM_ID for messages without a room):
+  // the current epoch encrypts, older epochs stay around to read history
+  const [roomKeys, setRoomKeys] = useState<Record<string, { current: number; epochs: Record<number, CryptoKey> }>>({});
+  const [userKeyPair, setUserKeyPair] = useState<UserKeyPair | null>(null);
+  // Other users' signing keys (persisted so history from offline senders verifies)
+  const [signingKeys, setSigningKeys] = useState<Record<string, JWK>>({});
+  // Pinned (verified) identity key fingerprints and fingerprints of keys the server reports now
+  const [trustedKeys, setTrustedKeys] = useState<TrustedKeys>({});
+  const [keyFingerprints, setKeyFingerprints] = useState<Record<string, { fingerprint: string; signingFingerprint?: string }>>({});
+  // Identity keys of every account, online or not (sender chains are wrapped
+  // for offline readers too)
+  const [identityKeys, setIdentityKeys] = useState<IdentityKeys>({});
+  // Track `${roomId}:${version}:${userId}` envelopes already sent (session scope)
   const distributedToRef = useRef<Set<string>>(new Set());
-  // Receiving file transfers (assembly buffers)
+  // Rooms whose key is being generated right now (avoid double generation)
+  const generatingKeysRef = useRef<Set<string>>(new Set());
+  // Rooms with a key rotation in flight
+  const rotatingKeysRef = useRef<Set<string>>(new Set());
+  // Sender-key envelopes waiting for the sender's signing key to be known
+  const pendingSenderKeysRef = useRef<SenderKeyEnvelope[]>([]);
+  // Bumped whenever a received sender chain is stored (retries decryption)
+  const [senderKeysTick, setSenderKeysTick] = useState(0);
+  // Room-key envelopes waiting for their distributor's signing key (or, for
+  // global, admin status) to be known
+  const pendingRoomKeysRef = useRef<{ fromUserId: string; envelope: RoomKeyEnvelope }[]>([]);
+  // Receiving file transfers: chunks we hold (in IndexedDB, or in `unsaved`
+  // when it is unavailable) and whether this page assembled the file yet
   const receiversRef = useRef<Map<string, {
     total: number;
-    buffers: (Uint8Array | null)[];
     downloaded: Set<number>;
+    unsaved: Map<number, Uint8Array>;
+    assembled: boolean;
     meta: { id: string; fileName: string; fileSize: number; senderId: string; senderName: string };
   }>>(new Map());
 
-  // Merge helper to keep unique messages by id, ordered by seq/timestamp
-  const mergeMessages = (prev: Message[], incoming: Message[]): Message[] => {
-    const map = new Map<string, Message>();
-    for (const m of prev) map.set(m.id, m);
-    for (const m of incoming) map.set(m.id, m);
-    const arr = Array.from(map.values());
-    arr.sort((a, b) => {
-      const sa = a.seq ?? 0;
-      const sb = b.seq ?? 0;
-      if (sa !== sb) return sa - sb;
-      return a.timestamp - b.timestamp;
+  // Whether userId may edit or delete target: its sender, or an admin of its
+  // room (known app admins for global)
+  const mayModifyMessage = (userId: string, target: Message) => {
+    if (userId === target.senderId) return true;
+    if (!target.roomId) return userId === currentUser?.id ? currentUser.isAdmin : !!users.find(u => u.id === userId)?.isAdmin;
+    const room = chatRooms.find(r => r.id === target.roomId);
+    return !!room && (room.createdBy === userId || (room.admins || []).includes(userId));
+  };
+
+  // Reaction, edit and delete events live in `messages` (sequenced like them);
+  // the timeline shows their effect instead
+  const timelineMessages = useMemo(
+    () => applyEdits(messages.filter(m => m.type !== 'reaction'), mayModifyMessage),
+    [messages, chatRooms, users, currentUser]
+  );
+  const reactions = useMemo(() => aggregateReactions(messages), [messages]);
+
+  // Key for a room epoch (defaults to the current one, used for sending)
+  const keyForRoom = (roomId?: string, version?: number): { version: number; key: CryptoKey } | undefined => {
+    const ring = roomKeys[roomId ?? GLOBAL_ROOM_ID];
+    if (!ring) return undefined;
+    const v = version ?? ring.current;
+    const key = ring.epochs[v];
+    return key ? { version: v, key } : undefined;
+  };
+
+  // Persist a room key epoch; the highest epoch becomes the current one
+  const storeRoomKey = async (roomId: string, version: number, key: CryptoKey) => {
+    saveRoomKeyJwk(roomId, version, await exportAesJwk(key));
+    setRoomKeys(prev => {
+      const ring = prev[roomId];
+      return {
+        ...prev,
+        [roomId]: {
+          current: Math.max(ring?.current ?? version, version),
+          epochs: { ...(ring?.epochs || {}), [version]: key },
+        },
+      };
     });
-    return arr;
+  };
+
+  const isDirectRoom = (roomId?: string) => !!roomId && !!chatRooms.find(r => r.id === roomId)?.isDirect;
+
+  const signingKeyFor = (userId: string): JWK | undefined =>
+    userId === currentUser?.id ? userKeyPair?.signingPublicJwk : signingKeys[userId];
+
+  const verifyMessageSignature = async (msg: Message): Promise<boolean> => {
+    const key = signingKeyFor(msg.senderId);
+    if (!msg.sig || !key) return false;
+    return verifyBytes(key, signedMessageBytes(msg), msg.sig);
+  };
+
+  // Decrypt incoming server messages with their room's key when possible.
+  // Undecryptable messages keep their ciphertext (enc stays true) so they can
+  // be retried once the key arrives.
+  const decryptMessages = async (incoming: Message[]): Promise<Message[]> => {
+    const out: Message[] = [];
+    const local = new Map(storage.getMessages().map(m => [m.id, m]));
+    for (const raw of incoming) {
+      // Already decrypted locally (our own sends, re-deliveries); adopt the server's seq
+      const known = local.get(raw.id);
+      if (known && !known.enc && raw.enc) {
+        out.push(raw.seq !== undefined ? { ...known, seq: raw.seq } : known);
+        continue;
+      }
+      // Content is still in its signed wire form here; never trust a sigValid from the server
+      const msg = { ...raw, sigValid: await verifyMessageSignature(raw) };
+      if (msg.enc && msg.nonce && msg.chainId !== undefined && typeof msg.chainIndex === 'number') {
+        try {
+          const key = await takeMessageKey(msg.roomId ?? GLOBAL_ROOM_ID, msg.senderId, msg.chainId, msg.chainIndex);
+          if (key) {
+            const plain = await aesDecryptString(key, msg.content, msg.nonce);
+            out.push({ ...msg, ...decodeMessageBody(plain, msg.bodyFormat), enc: false });
+            continue;
+          }
+        } catch {}
+        out.push(msg);
+        continue;
+      }
+      const entry = keyForRoom(msg.roomId, msg.keyVersion);
+      if (msg.enc && msg.nonce && entry) {
+        try {
+          const plain = await aesDecryptString(entry.key, msg.content, msg.nonce);
+          out.push({ ...msg, ...decodeMessageBody(plain, msg.bodyFormat), enc: false });
+        } catch {
+          out.push(msg);
+        }
+      } else {
+        out.push(msg);
+      }
+    }
+    return out;
+  };
+
+  // Unwrap queued sender-key envelopes whose sender's signing key we know;
+  // the rest wait (the server queue is drained on delivery)
+  const processSenderKeys = async () => {
+    if (!userKeyPair) return;
+    const waiting: SenderKeyEnvelope[] = [];
+    let stored = false;
+    for (const env of pendingSenderKeysRef.current) {
+      const senderKey = signingKeyFor(env.senderId);
+      if (!senderKey) {
+        waiting.push(env);
+        continue;
+      }
+      try {
+        const chainKey = await unpackSenderKeyFromSender(userKeyPair.privateJwk, env, senderKey);
+        if (await storeReceivedChain(env.roomId, env.senderId, env.chainId, chainKey, env.iteration)) stored = true;
+      } catch (e) {
+        console.error('Rejected sender key:', env.roomId, env.senderId, e);
+      }
+    }
+    pendingSenderKeysRef.current = waiting;
+    if (stored) setSenderKeysTick(t => t + 1);
+  };
+
+  // Whether userId may hand out keys of roomId: app admins for global, the
+  // owner or room admins otherwise (direct room keys are never distributed)
+  const mayDistributeRoomKey = (userId: string, roomId: string, rooms: ChatRoom[], online: User[]) => {
+    if (roomId === GLOBAL_ROOM_ID) return !!online.find(u => u.id === userId)?.isAdmin;
+    const room = rooms.find(r => r.id === roomId);
+    return !!room && !room.isDirect && (room.createdBy === userId || (room.admins || []).includes(userId));
+  };
+
+  // Store queued room keys signed by someone who manages the room; envelopes
+  // from anyone else are dropped, unknown signing keys wait
+  const processRoomKeys = async (rooms: ChatRoom[] = chatRooms, online: User[] = users) => {
+    if (!userKeyPair) return;
+    const waiting: typeof pendingRoomKeysRef.current = [];
+    for (const item of pendingRoomKeysRef.current) {
+      const { fromUserId, envelope } = item;
+      // App admin status is known only for online users
+      if (envelope.roomId === GLOBAL_ROOM_ID && !online.some(u => u.id === fromUserId)) {
+        waiting.push(item);
+        continue;
+      }
+      // fromUserId comes from the server; the signed senderId must agree with it
+      if (envelope.senderId !== fromUserId || !mayDistributeRoomKey(fromUserId, envelope.roomId, rooms, online)) {
+        console.error('Rejected room key from a user who cannot manage the room:', envelope.roomId, fromUserId);
+        continue;
+      }
+      const senderKey = signingKeyFor(fromUserId);
+      if (!senderKey) {
+        waiting.push(item);
+        continue;
+      }
+      try {
+        const newKey = await unpackRoomKeyFromSender(userKeyPair.privateJwk, envelope, senderKey);
+        await storeRoomKey(envelope.roomId, envelope.keyVersion, newKey);
+      } catch (e) {
+        console.error('Failed to unpack room key:', e);
+      }
+    }
+    pendingRoomKeysRef.current = waiting;
   };
 
   // Sync with server
@@ -103,103 +402,158 @@ export const AppProvider = ({ children }: { children: ReactNode }) => {
     if (!currentUser) return;
 
     try {
-      const response = await fetch('/api/ws', {
-        method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({
-          type: 'heartbeat',
-          payload: { userId: currentUser.id, lastSeq }
-        })
-      });
+      const result = await callAction('heartbeat', { lastSeq });
 
-      const data = await response.json();
-      
-      if (data.success) {
-        // Update online users from server
-        if (data.onlineUsers) {
-          setUsers(data.onlineUsers);
-        }
+      if (result.ok) {
+        const { data } = result;
+        setUsers(data.onlineUsers);
+        setLastSeq(data.lastSeq);
+        applyReceipts(data.receipts);
+        applyTypingSnapshot(data.typing);
 
-        // Update lastSeq if provided
-        if (typeof data.lastSeq === 'number') {
-          setLastSeq(data.lastSeq);
-        }
-
-        // Handle pending key updates (admin distributed room key)
-        if (Array.isArray(data.keyUpdates) && userKeyPair) {
+        // Handle pending key updates: room keys from owner/admins, sender
+        // chains from every member
+        if (data.keyUpdates.length > 0 && userKeyPair) {
           for (const upd of data.keyUpdates) {
-            try {
-              const { epk, saltB64, nonceB64, ctB64 } = upd.envelope || {};
-              if (epk && saltB64 && nonceB64 && ctB64) {
-                const newKey = await unpackRoomKeyFromSender(userKeyPair.privateJwk, epk, saltB64, nonceB64, ctB64);
-                setRoomKey(newKey);
-                const jwk = await exportAesJwk(newKey);
-                saveRoomKeyJwk(jwk);
-              }
-            } catch (e) {
-              console.error('Failed to unpack room key:', e);
-            }
+            const env = upd.envelope;
+            if ('kind' in env) pendingSenderKeysRef.current.push(env);
+            else pendingRoomKeysRef.current.push({ fromUserId: upd.fromUserId, envelope: env });
           }
+          // Checked against the room list of this same reply
+          await processRoomKeys(data.rooms, data.onlineUsers);
+          await processSenderKeys();
         }
 
-        // Update devices snapshot if provided
-        if (Array.isArray(data.devices)) {
-          setDevices(data.devices);
-        }
-        // Update rooms snapshot if provided
-        if (Array.isArray(data.rooms)) {
-          setChatRooms(data.rooms);
-          // persist for reload
-          localStorage.setItem('lanhub_chat_rooms', JSON.stringify(data.rooms));
-        }
-        
-        // Add new messages - but filter out duplicates
-        if (data.newMessages && data.newMessages.length > 0) {
-          const prevSnapshot = messages; // capture current state
-          const existingIds = new Set(prevSnapshot.map((m: Message) => m.id));
-          const uniqueNewMessages: Message[] = data.newMessages.filter((msg: Message) => !existingIds.has(msg.id));
-          const out: Message[] = [];
-          for (const msg of uniqueNewMessages) {
-            if (msg.enc && msg.nonce && roomKey) {
-              try {
-                const plain = await aesDecryptString(roomKey, msg.content, msg.nonce);
-                out.push({ ...msg, content: plain });
-              } catch {
-                out.push({ ...msg, content: '[Encrypted message]' });
-              }
-            } else {
-              out.push(msg);
-            }
-          }
+        setDevices(data.devices);
+        setChatRooms(data.rooms);
+        // persist for reload
+        storage.setChatRooms(data.rooms);
+
+        // Add new messages - but filter out duplicates (our own sends still take their seq)
+        if (data.newMessages.length > 0) {
+          const existingIds = new Set(messages.filter(m => m.seq !== undefined).map(m => m.id));
+          const uniqueNewMessages = data.newMessages.filter(msg => !existingIds.has(msg.id));
+          const out = await decryptMessages(uniqueNewMessages);
           // Save and append (dedup)
-          out.forEach((m) => storage.addMessage(m));
+          out.forEach((m) => storage.saveIncomingMessage(m));
           setMessages(prev => mergeMessages(prev, out));
         }
-        
-        // lastSeq is updated above if provided by server
       }
     } catch (error) {
       console.error('Sync error:', error);
     }
   };
 
+  syncRef.current = syncWithServer;
+  lastSeqRef.current = lastSeq;
+
+  // Apply an event pushed over the WebSocket transport
+  const handlePushEvent = async (event: PushEvent) => {
+    switch (event.type) {
+      case 'new_message': {
+        // lastSeq is left to the heartbeat so gaps are still back-filled
+        const out = await decryptMessages([event.payload as Message]);
+        out.forEach((m) => storage.saveIncomingMessage(m));
+        setMessages(prev => mergeMessages(prev, out));
+        break;
+      }
+      case 'user_online':
+      case 'user_offline':
+        if (Array.isArray(event.payload?.onlineUsers)) {
+          setUsers(event.payload.onlineUsers);
+        }
+        break;
+      case 'device_online':
+        if (Array.isArray(event.payload?.devices)) {
+          setDevices(event.payload.devices);
+        }
+        break;
+      case 'rooms_updated':
+        if (Array.isArray(event.payload?.rooms)) {
+          setChatRooms(event.payload.rooms);
+          storage.setChatRooms(event.payload.rooms);
+        }
+        break;
+      case 'key_update':
+        // Envelopes stay queued server-side; drain them right away
+        await syncWithServer();
+        break;
+      case 'receipts_updated':
+        if (event.payload?.receipt) applyReceipts([event.payload.receipt as Receipt]);
+        break;
+      case 'typing':
+        if (event.payload?.userId && event.payload.userId !== currentUser?.id) {
+          applyTypingSignal(event.payload as TypingSignal, !!event.payload.typing);
+        }
+        break;
+    }
+  };
+
+  pushHandlerRef.current = handlePushEvent;
+
+  // Receipt positions only move forward, so updates merge by maximum
+  const applyReceipts = (incoming: Receipt[]) => {
+    if (incoming.length === 0) return;
+    setReceipts(prev => {
+      const next = { ...prev };
+      for (const r of incoming) next[r.userId] = mergeReceipt(prev[r.userId], r);
+      return next;
+    });
+  };
+
+  // Typing signals hold for TYPING_TTL_MS after we hear of them (renewals re-arm them)
+  const applyTypingSignal = (signal: TypingSignal, active: boolean) => {
+    const key = receiptKey(signal.roomId);
+    setTypingState(prev => {
+      const typists = { ...prev[key] };
+      if (active) typists[signal.userId] = Date.now() + TYPING_TTL_MS;
+      else delete typists[signal.userId];
+      return { ...prev, [key]: typists };
+    });
+  };
+
+  // The heartbeat lists everyone typing right now
+  const applyTypingSnapshot = (signals: TypingSignal[]) => {
+    const expiresAt = Date.now() + TYPING_TTL_MS;
+    const next: Record<string, Record<string, number>> = {};
+    for (const s of signals) {
+      if (s.userId !== currentUser?.id) (next[receiptKey(s.roomId)] ??= {})[s.userId] = expiresAt;
+    }
+    setTypingState(next);
+  };
+
+  // Features both sides speak; before the handshake completes, assume none
+  const serverSupports = (capability: Capability) => !!serverInfo?.capabilities.includes(capability);
+
+  const applyServerInfo = (info: ServerInfo) => {
+    setServerInfo(info);
+    setProtocolError(serverIncompatibility(info));
+  };
+
   // Register user on server (include ECDH public key for E2E)
   const registerUserOnServer = async (user: User) => {
     try {
-      const response = await fetch('/api/ws', {
-        method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({
-          type: 'register_user',
-          payload: { ...user, publicKeyJwk: userKeyPair?.publicJwk }
-        })
+      const result = await callAction('register_user', {
+        avatar: user.avatar,
+        publicKeyJwk: userKeyPair?.publicJwk,
+        signingKeyJwk: userKeyPair?.signingPublicJwk,
+        protocolVersion: PROTOCOL_VERSION,
+        capabilities: [...CAPABILITIES],
       });
-
-      const data = await response.json();
-      if (data.success) {
-        setUsers(data.onlineUsers || []);
-        if (data.messages) {
-          setMessages(data.messages);
+      if (!result.ok && result.status === 426) {
+        // Server refused this client as too old
+        setProtocolError(result.error.error);
+        return;
+      }
+      if (result.ok) {
+        const { data } = result;
+        applyServerInfo(data.server);
+        setUsers(data.onlineUsers);
+        if (data.messages.length > 0) {
+          const out = await decryptMessages(data.messages);
+          // Persist plaintext: sender-key message keys cannot be used twice
+          out.filter(m => !m.enc).forEach((m) => storage.saveIncomingMessage(m));
+          setMessages(prev => mergeMessages(prev, out));
         }
       }
     } catch (error) {
@@ -207,188 +561,282 @@ export const AppProvider = ({ children }: { children: ReactNode }) => {
     }
   };
 
+  // Publish identity keys once loaded (the initial registration may run before)
+  useEffect(() => {
+    if (currentUser && userKeyPair) registerUserOnServer(currentUser);
+  }, [userKeyPair]);
+
   // Unregister user from server
-  const unregisterUserFromServer = async (userId: string) => {
+  const unregisterUserFromServer = async () => {
     try {
-      await fetch('/api/ws', {
-        method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({
-          type: 'unregister_user',
-          payload: { userId }
-        })
-      });
+      await callAction('unregister_user', {});
     } catch (error) {
       console.error('Unregister error:', error);
     }
   };
 
-  // Heartbeat every 2 seconds
+  // Push channel: WebSocket (custom server) first, then Server-Sent Events,
+  // with heartbeat polling covering any gap. Retries WebSocket with backoff.
   useEffect(() => {
-    if (!currentUser) return;
+    if (!currentUser || protocolError || typeof window === 'undefined') return;
+    let closed = false;
+    let attempts = 0;
+    let retry: ReturnType<typeof setTimeout> | null = null;
+    let events: EventSource | null = null;
+
+    const onFrame = (raw: string) => {
+      try {
+        const data = JSON.parse(raw);
+        if (data && typeof data.replyTo === 'string') {
+          pendingRepliesRef.current.get(data.replyTo)?.({ status: data.status, body: data.body });
+        } else if (data && typeof data.type === 'string') {
+          pushHandlerRef.current(data);
+        }
+      } catch {
+        // ignore malformed frames
+      }
+    };
+
+    const scheduleRetry = () => {
+      if (closed) return;
+      const delay = Math.min(30000, 1000 * 2 ** attempts++);
+      retry = setTimeout(connect, delay);
+    };
+
+    const openEventSource = () => {
+      if (!('EventSource' in window)) {
+        scheduleRetry();
+        return;
+      }
+      const params = new URLSearchParams({ lastEventId: String(lastSeqRef.current) });
+      const es = new EventSource(`/api/ws/events?${params.toString()}`);
+      events = es;
+      es.onopen = () => {
+        setTransport('sse');
+        syncRef.current();
+      };
+      es.onmessage = (ev) => onFrame(ev.data);
+      es.onerror = () => {
+        // CONNECTING => the browser retries with Last-Event-ID on its own
+        if (es.readyState !== EventSource.CLOSED) return;
+        if (events === es) events = null;
+        setTransport('polling');
+        scheduleRetry();
+      };
+    };
+
+    const connect = () => {
+      events?.close();
+      events = null;
+      if (!('WebSocket' in window)) {
+        openEventSource();
+        return;
+      }
+      const proto = window.location.protocol === 'https:' ? 'wss:' : 'ws:';
+      const socket = new WebSocket(`${proto}//${window.location.host}/api/ws`);
+      let opened = false;
+      socketRef.current = socket;
+      socket.onopen = () => {
+        opened = true;
+        attempts = 0;
+        setTransport('websocket');
+        // Catch up on anything missed while disconnected
+        syncRef.current();
+      };
+      socket.onmessage = (ev) => onFrame(ev.data);
+      socket.onclose = () => {
+        if (socketRef.current === socket) socketRef.current = null;
+        setTransport('polling');
+        if (closed) return;
+        // Upgrade never succeeded (no custom server, or a proxy ate it)
+        if (!opened) {
+          openEventSource();
+          return;
+        }
+        scheduleRetry();
+      };
+    };
+
+    connect();
+
+    return () => {
+      closed = true;
+      if (retry) clearTimeout(retry);
+      socketRef.current?.close();
+      socketRef.current = null;
+      events?.close();
+      setTransport('polling');
+    };
+  }, [currentUser, protocolError]);
+
+  // Heartbeat: every 2 seconds when polling, slower keep-alive when pushed
+  useEffect(() => {
+    if (!currentUser || protocolError) return;
 
     const interval = setInterval(() => {
-      syncWithServer();
-    }, 2000);
+      syncRef.current();
+    }, transport === 'polling' ? 2000 : 10000);
 
     // Initial sync
-    syncWithServer();
+    syncRef.current();
 
     return () => clearInterval(interval);
-  }, [currentUser]);
+  }, [currentUser, transport, protocolError]);
 
-  useEffect(() => {
-    // Load data from localStorage
-    const savedUser = storage.getCurrentUser();
-    setCurrentUser(savedUser);
-    setDevices(storage.getDevices());
+  // Load the signed-in account's browser state: cached history and rooms,
+  // and its identity and room keys (generated on its first sign-in here)
+  const loadAccountState = async (accountId: string) => {
+    setStorageAccount(accountId);
     setMessages(storage.getMessages());
     setFileTransfers(storage.getFileTransfers());
-    setActivityLogs(storage.getActivityLogs());
     setChatRooms(storage.getChatRooms());
-
-    // Load or generate crypto keys
-    (async () => {
-      let kp = loadUserKeyPair();
-      if (!kp) {
-        kp = await generateECDH();
-        saveUserKeyPair(kp.publicJwk, kp.privateJwk);
-      }
-      setUserKeyPair(kp);
-      const roomJwk = loadRoomKeyJwk();
-      if (roomJwk) {
+    let kp = loadUserKeyPair();
+    if (!kp) {
+      kp = await generateECDH();
+      saveUserKeyPair(kp.publicJwk, kp.privateJwk);
+    }
+    if (!kp.signingPrivateJwk) {
+      // Keys saved before message signing existed get a signing pair added
+      const signing = await generateSigningKeyPair();
+      saveUserKeyPair(kp.publicJwk, kp.privateJwk, signing);
+      kp = { ...kp, signingPublicJwk: signing.publicJwk, signingPrivateJwk: signing.privateJwk };
+    }
+    setUserKeyPair(kp);
+    setTrustedKeys(loadTrustedKeys());
+    setSigningKeys(loadKnownSigningKeys());
+    const loaded: Record<string, { current: number; epochs: Record<number, CryptoKey> }> = {};
+    for (const [roomId, ring] of Object.entries(loadRoomKeyJwks())) {
+      const epochs: Record<number, CryptoKey> = {};
+      for (const [version, jwk] of Object.entries(ring.epochs)) {
         try {
-          const k = await importAesJwk(roomJwk);
-          setRoomKey(k);
+          epochs[Number(version)] = await importAesJwk(jwk);
         } catch (e) {
-          console.warn('Failed to import saved room key:', e);
+          console.warn('Failed to import saved room key:', roomId, version, e);
         }
       }
-    })();
+      if (epochs[ring.current]) loaded[roomId] = { current: ring.current, epochs };
+    }
+    setRoomKeys(prev => ({ ...loaded, ...prev }));
+  };
+
+  // Forget the account on this page: nothing of it stays in memory (the
+  // reload drops keys and decrypted history) and nothing more is stored
+  const endAccountState = (afterwards: Promise<unknown> = Promise.resolve()) => {
+    setStorageAccount(null);
+    storage.setCurrentUser(null);
+    setCurrentUser(null);
+    afterwards.finally(() => window.location.reload());
+  };
+
+  useEffect(() => {
+    // Load data from localStorage
+    const savedUser = storage.getCurrentUser();
+    setCurrentUser(savedUser);
+    setDevices(storage.getDevices());
+    setActivityLogs(storage.getActivityLogs());
+    if (savedUser) loadAccountState(savedUser.id).catch(console.error);
 
-    // If user was logged in, re-register with server
+    // If user was logged in, check the session is still valid, then re-register
     if (savedUser) {
-      registerUserOnServer(savedUser);
+      fetch('/api/auth/session')
+        .then(async (res) => {
+          if (res.status === 401) {
+            endAccountState();
+            return;
+          }
+          const data = await res.json();
+          if (!data.success) return;
+          const user: User = { ...savedUser, ...data.user, status: 'online', lastSeen: Date.now() };
+          storage.setCurrentUser(user);
+          setCurrentUser(user);
+          registerUserOnServer(user);
+        })
+        // Server unreachable: keep the saved user, requests retry via heartbeat
+        .catch(console.error);
     }
 
     // Get initial server state
-    fetch('/api/ws', {
-      method: 'POST',
-      headers: { 'Content-Type': 'application/json' },
-      body: JSON.stringify({ type: 'get_state', payload: {} })
-    })
-      .then(res => res.json())
-      .then(data => {
-        if (data.success) {
-          setUsers(data.onlineUsers || []);
-          if (data.messages) {
-            // decrypt if we already have a room key
-            (async () => {
-              const out: Message[] = [] as any;
-              for (const msg of data.messages as Message[]) {
-                if (msg.enc && msg.nonce && roomKey) {
-                  try {
-                    const plain = await aesDecryptString(roomKey, msg.content, msg.nonce);
-                    out.push({ ...msg, content: plain });
-                  } catch {
-                    out.push({ ...msg, content: '[Encrypted message]' });
-                  }
-                } else {
-                  out.push(msg);
-                }
-              }
-              setMessages(mergeMessages([], out));
-            })();
-          }
-          if (typeof data.lastSeq === 'number') {
-            setLastSeq(data.lastSeq);
-          }
-          if (data.devices) {
-            setDevices(data.devices);
-          }
-          if (data.rooms) {
-            setChatRooms(data.rooms);
-            localStorage.setItem('lanhub_chat_rooms', JSON.stringify(data.rooms));
-          }
-        }
+    callAction('get_state', {})
+      .then(result => {
+        if (!result.ok) return;
+        const { data } = result;
+        applyServerInfo(data.server);
+        setUsers(data.onlineUsers);
+        // decrypted later by the room-key effect once keys are loaded
+        setMessages(prev => mergeMessages(prev, data.messages));
+        setLastSeq(data.lastSeq);
+        setDevices(data.devices);
+        setChatRooms(data.rooms);
+        storage.setChatRooms(data.rooms);
       })
       .catch(console.error);
   }, []);
 
-  const login = (username: string, password: string): boolean => {
-    const localUsers = storage.getUsers();
-    const user = localUsers.find(u => u.username === username);
-    
-    if (user) {
-      const updatedUser = { ...user, status: 'online' as const, lastSeen: Date.now() };
-      storage.updateUser(user.id, updatedUser);
-      storage.setCurrentUser(updatedUser);
-      setCurrentUser(updatedUser);
-      
-      // Register with server
-      registerUserOnServer(updatedUser);
-      
-      // Add activity log
-      const log: ActivityLog = {
-        id: Date.now().toString(),
-        type: 'login',
-        userId: user.id,
-        userName: user.displayName,
-        description: `${user.displayName} logged in`,
-        timestamp: Date.now(),
-      };
-      storage.addActivityLog(log);
-      setActivityLogs(storage.getActivityLogs());
-      
-      return true;
-    }
-    return false;
-  };
-
-  const register = (username: string, password: string, displayName: string): boolean => {
-    const localUsers = storage.getUsers();
-    if (localUsers.find(u => u.username === username)) {
-      return false;
-    }
-
-    const newUser: User = {
-      id: `${Date.now()}-${Math.random().toString(36).substr(2, 9)}`,
-      username,
-      displayName,
-      isAdmin: false, // never admin by default
-      status: 'online',
-      lastSeen: Date.now(),
-    };
-
-    storage.addUser(newUser);
-    storage.setCurrentUser(newUser);
-    setCurrentUser(newUser);
+  // Sign in (or register) against the server, then cache the account locally
+  const startSession = (account: Pick<User, 'id' | 'username' | 'displayName' | 'isAdmin'>, description: string) => {
+    const user: User = { ...account, status: 'online', lastSeen: Date.now() };
+    storage.setCurrentUser(user);
+    setCurrentUser(user);
+    loadAccountState(user.id).catch(console.error);
 
     // Register with server
-    registerUserOnServer(newUser);
+    registerUserOnServer(user);
 
     // Add activity log
     const log: ActivityLog = {
       id: Date.now().toString(),
       type: 'login',
-      userId: newUser.id,
-      userName: newUser.displayName,
-      description: `${newUser.displayName} registered and logged in`,
+      userId: user.id,
+      userName: user.displayName,
+      description: `${user.displayName} ${description}`,
       timestamp: Date.now(),
     };
     storage.addActivityLog(log);
     setActivityLogs(storage.getActivityLogs());
+  };
 
-    return true;
+  const login = async (username: string, password: string): Promise<string | null> => {
+    try {
+      const res = await fetch('/api/auth/login', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ username, password }),
+      });
+      const data = await res.json().catch(() => ({}));
+      if (!res.ok || !data.success) return data.error || 'Invalid username or password';
+      startSession(data.user, 'logged in');
+      return null;
+    } catch (error) {
+      console.error('Login error:', error);
+      return 'Server unreachable';
+    }
+  };
+
+  const register = async (username: string, password: string, displayName: string): Promise<string | null> => {
+    try {
+      const res = await fetch('/api/auth/register', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ username, password, displayName }),
+      });
+      const data = await res.json().catch(() => ({}));
+      if (!res.ok || !data.success) return data.error || 'Registration failed';
+      startSession(data.user, 'registered and logged in');
+      return null;
+    } catch (error) {
+      console.error('Register error:', error);
+      return 'Server unreachable';
+    }
   };
 
   const logout = () => {
+    let signedOut: Promise<unknown> = Promise.resolve();
     if (currentUser) {
-      storage.updateUser(currentUser.id, { status: 'offline', lastSeen: Date.now() });
-      
-      // Unregister from server
-      unregisterUserFromServer(currentUser.id);
-      
+      // Unregister from server, then revoke the session cookie
+      signedOut = unregisterUserFromServer()
+        .finally(() => fetch('/api/auth/logout', { method: 'POST' }))
+        .catch(console.error);
+
       // Add activity log
       const log: ActivityLog = {
         id: Date.now().toString(),
@@ -401,90 +849,365 @@ export const AppProvider = ({ children }: { children: ReactNode }) => {
       storage.addActivityLog(log);
       setActivityLogs(storage.getActivityLogs());
     }
-    
-    storage.setCurrentUser(null);
-    setCurrentUser(null);
+
+    endAccountState(signedOut);
   };
 
-  const sendMessage = async (content: string, roomId?: string) => {
-    if (!currentUser) return;
+  const hasMoreHistory = (roomId?: string) =>
+    serverSupports('history-paging') && !historyComplete[roomId ?? GLOBAL_ROOM_ID];
 
-    // Permissions:
-    // - Global (roomId undefined): only admin can send
-    if (!roomId && !currentUser.isAdmin) {
-      return;
+  const loadOlderMessages = async (roomId?: string): Promise<boolean> => {
+    if (!currentUser || !hasMoreHistory(roomId)) return false;
+    const seqs = messages.filter(m => m.roomId === roomId && typeof m.seq === 'number').map(m => m.seq!);
+    try {
+      const result = await callAction('fetch_history', {
+        roomId,
+        before: seqs.length > 0 ? Math.min(...seqs) : undefined,
+      });
+      if (!result.ok) return false;
+      const { data } = result;
+      const out = await decryptMessages(data.messages);
+      storage.mergeMessages(out);
+      setMessages(prev => mergeMessages(prev, out));
+      if (!data.hasMore) setHistoryComplete(prev => ({ ...prev, [roomId ?? GLOBAL_ROOM_ID]: true }));
+      return data.hasMore;
+    } catch (error) {
+      console.error('History error:', error);
+      return false;
     }
-    // - Room: allow if public or participant
-    if (roomId) {
-      const room = chatRooms.find(r => r.id === roomId);
-      if (!room) return;
-      const isParticipant = room.participants.includes(currentUser.id);
-      const canSend = room.isPublic || isParticipant;
-      if (!canSend) return;
+  };
+
+  // Report that everything up to seq in a room was seen (only when it moves forward)
+  const markRead = (roomId: string | undefined, seq: number) => {
+    if (!currentUser || !serverSupports('receipts')) return;
+    const mine = receipts[currentUser.id];
+    // The ref also covers reports made since this render's receipts
+    const key = receiptKey(roomId);
+    if (seq <= Math.max(readSeq(mine, roomId), reportedReadRef.current[key] ?? 0)) return;
+    reportedReadRef.current[key] = seq;
+    applyReceipts([{ userId: currentUser.id, deliveredSeq: mine?.deliveredSeq ?? 0, read: { [key]: seq } }]);
+    callAction('mark_read', { roomId, seq }).catch(error => console.error('Mark read error:', error));
+  };
+
+  // Others' messages after our read position; every message without receipt support
+  const unreadCount = (roomId?: string) => {
+    const inRoom = timelineMessages.filter(m => m.roomId === roomId);
+    if (!currentUser || !serverSupports('receipts')) return inRoom.length;
+    const read = readSeq(receipts[currentUser.id], roomId);
+    return inRoom.filter(m => m.senderId !== currentUser.id && !m.deleted && (m.seq ?? 0) > read).length;
+  };
+
+  // Tick state and readers of our own messages. The audience is a private
+  // room's participants, otherwise everyone the server reports receipts for.
+  const receiptsFor = (message: Message) => {
+    if (!currentUser || message.senderId !== currentUser.id || !serverSupports('receipts')) return null;
+    const room = message.roomId ? chatRooms.find(r => r.id === message.roomId) : undefined;
+    const audience = room && !room.isPublic ? room.participants : Object.keys(receipts);
+    return { status: deliveryStatus(receipts, message, audience), seenBy: seenBy(receipts, message, audience) };
+  };
+
+  const mentionCandidates = (roomId?: string) => {
+    const room = roomId ? chatRooms.find(r => r.id === roomId) : undefined;
+    return users.filter(u => u.id !== currentUser?.id && (!room || room.isPublic || room.participants.includes(u.id)));
+  };
+
+  const unreadMentions = useMemo(() => {
+    if (!currentUser) return [];
+    const mine = receipts[currentUser.id];
+    return timelineMessages
+      .filter(m => m.senderId !== currentUser.id && (m.seq ?? 0) > readSeq(mine, m.roomId) && mentionsUser(m, currentUser))
+      .reverse();
+  }, [timelineMessages, receipts, currentUser]);
+
+  const hasUnreadMention = (roomId?: string) => unreadMentions.some(m => m.roomId === roomId);
+
+  const searchMessages = async (query: string, filters?: SearchFilters) => {
+    if (!currentUser) return [];
+    try {
+      return await searchIndex(currentUser.id, query, filters);
+    } catch (e) {
+      console.warn('Search unavailable:', e);
+      return [];
+    }
+  };
+
+  const roomName = (roomId?: string) => {
+    if (!roomId) return 'Global Chat';
+    const room = chatRooms.find(r => r.id === roomId);
+    if (!room) return 'Unknown room';
+    if (!room.isDirect) return room.name;
+    // The other member's name; from their messages while they are offline
+    const peerId = directPeer(room, currentUser?.id || '');
+    return users.find(u => u.id === peerId)?.displayName
+      || messages.find(m => m.roomId === room.id && m.senderId === peerId)?.senderName
+      || room.name;
+  };
+
+  // Start/renew (at most every TYPING_TTL_MS / 2) or stop our typing signal
+  const setTyping = (roomId: string | undefined, active: boolean) => {
+    if (!currentUser || !serverSupports('typing')) return;
+    const sent = typingSentRef.current;
+    const now = Date.now();
+    if (active) {
+      if (!canSendTo(roomId)) return;
+      if (sent && sent.roomId === roomId && now - sent.at < TYPING_TTL_MS / 2) return;
+      typingSentRef.current = { roomId, at: now };
+    } else {
+      if (!sent || sent.roomId !== roomId) return;
+      typingSentRef.current = null;
     }
+    callAction('set_typing', { roomId, typing: active }).catch(error => console.error('Typing signal error:', error));
+  };
+
+  const typingUsers = (roomId?: string) => {
+    const now = Date.now();
+    return Object.entries(typing[receiptKey(roomId)] ?? {}).filter(([, expiresAt]) => expiresAt > now).map(([userId]) => userId);
+  };
+
+  // Permissions:
+  // - Global (roomId undefined): only admin can send
+  // - Room: allow if public or participant
+  const canSendTo = (roomId?: string) => {
+    if (!currentUser) return false;
+    if (!roomId) return currentUser.isAdmin;
+    const room = chatRooms.find(r => r.id === roomId);
+    if (!room) return false;
+    return room.isPublic || room.participants.includes(currentUser.id);
+  };
 
+  // Build the signed wire form of a message: encrypted with our forward-secret
+  // sender chain, else the static room key, else plaintext
+  const sealMessage = async (id: string, type: Message['type'], body: MessageBody, roomId?: string, targetId?: string): Promise<Message> => {
+    const { content, replyTo, threadRootId } = body;
+    // Plaintext messages carry thread fields on the wire; mentions never go there
+    const thread = { replyTo, threadRootId };
+    // Encrypted messages carry content, thread fields and mentions as one JSON body;
+    // servers without 'threads' would drop bodyFormat, so keep the bare content there
+    const threads = serverSupports('threads');
+    const plaintext = threads ? encodeMessageBody(body) : content;
+    const bodyFormat = threads ? { bodyFormat: 'json' as const } : {};
+    const base = { id, senderId: currentUser!.id, senderName: currentUser!.displayName, timestamp: Date.now(), roomId, type, targetId };
     let toSend: Message;
-    const id = `${Date.now()}-${Math.random().toString(36).substr(2, 9)}`;
-    if (roomKey) {
+    const entry = keyForRoom(roomId);
+    let senderKey: { chainId: string; index: number; key: CryptoKey } | null = null;
+    try {
+      // Direct messages always use the pairwise key
+      if (!isDirectRoom(roomId)) senderKey = await nextSenderMessageKey(roomId ?? GLOBAL_ROOM_ID);
+    } catch (e) {
+      console.warn('Sender key unavailable, using room key:', e);
+    }
+    if (senderKey) {
+      const { nonceB64, ctB64 } = await aesEncryptString(senderKey.key, plaintext);
+      toSend = {
+        ...base,
+        content: ctB64,
+        enc: true,
+        nonce: nonceB64,
+        alg: 'aes-256-gcm',
+        chainId: senderKey.chainId,
+        chainIndex: senderKey.index,
+        ...bodyFormat,
+      };
+    } else if (entry) {
       try {
-        const { nonceB64, ctB64 } = await aesEncryptString(roomKey, content);
+        const { nonceB64, ctB64 } = await aesEncryptString(entry.key, plaintext);
         toSend = {
-          id,
-          senderId: currentUser.id,
-          senderName: currentUser.displayName,
+          ...base,
           content: ctB64,
-          timestamp: Date.now(),
-          roomId,
-          type: 'text',
           enc: true,
           nonce: nonceB64,
           alg: 'aes-256-gcm',
+          keyVersion: entry.version,
+          ...bodyFormat,
         };
       } catch (e) {
         console.error('Encryption failed, sending plaintext:', e);
-        toSend = {
-          id,
-          senderId: currentUser.id,
-          senderName: currentUser.displayName,
-          content,
-          timestamp: Date.now(),
-          roomId,
-          type: 'text',
-        };
+        toSend = { ...base, content, ...thread };
       }
     } else {
-      toSend = {
-        id,
-        senderId: currentUser.id,
-        senderName: currentUser.displayName,
-        content,
-        timestamp: Date.now(),
-        roomId,
-        type: 'text',
-      };
+      toSend = { ...base, content, ...thread };
     }
 
-    // Save locally (store plaintext for local UX)
-    const localMessage: Message = {
-      ...toSend,
-      content: content,
+    if (userKeyPair?.signingPrivateJwk && serverSupports('signatures')) {
+      try {
+        toSend.sig = await signBytes(userKeyPair.signingPrivateJwk, signedMessageBytes(toSend));
+      } catch (e) {
+        console.warn('Failed to sign message:', e);
+      }
+    }
+    return toSend;
+  };
+
+  // Keep the plaintext locally, then send the wire form (over the socket when connected)
+  const postMessage = async (body: MessageBody, toSend: Message) => {
+    const localMessage: Message = {
+      ...toSend,
+      ...body,
+      enc: false,
+      sigValid: !!toSend.sig,
+    };
+    storage.addMessage(localMessage);
+    setMessages(prev => mergeMessages(prev, [localMessage]));
+    enqueueAction({ type: 'send_message', payload: toSend }, toSend.id);
+  };
+
+  // Over the socket when connected (awaiting its reply frame), HTTP otherwise
+  const sendAction = async <T extends ActionType>(type: T, payload: ActionPayload<T>, frameId: string): Promise<ActionResult<T>> => {
+    const socket = socketRef.current;
+    if (!socket || socket.readyState !== WebSocket.OPEN) return callAction(type, payload);
+    const replies = pendingRepliesRef.current;
+    const reply = await new Promise<{ status: number; body: unknown }>(resolve => {
+      // No reply in time: treated like a network error (status 0), so retried
+      const timer = setTimeout(() => {
+        replies.delete(frameId);
+        resolve({ status: 0, body: null });
+      }, SOCKET_REPLY_TIMEOUT_MS);
+      replies.set(frameId, r => {
+        clearTimeout(timer);
+        replies.delete(frameId);
+        resolve(r);
+      });
+      socket.send(JSON.stringify({ id: frameId, type, payload }));
+    });
+    return toActionResult(type, reply.status, reply.body);
+  };
+
+  const updateOutbox = (update: (entries: OutboxEntry[]) => OutboxEntry[]) => {
+    outboxRef.current = update(outboxRef.current);
+    saveOutbox(outboxRef.current);
+    setOutbox(outboxRef.current);
+  };
+
+  const enqueueAction = (item: OutboxItem, id = newMessageId()) => {
+    if (!currentUser) return;
+    updateOutbox(entries => [...entries, { ...item, id, userId: currentUser.id, status: 'pending', attempts: 0, nextAttemptAt: Date.now() }]);
+    flushOutboxRef.current();
+  };
+
+  const applyRooms = (rooms: ChatRoom[]) => {
+    setChatRooms(rooms);
+    storage.setChatRooms(rooms);
+  };
+
+  const onOutboxDelivered = (entry: OutboxEntry, data: ApiResponse<OutboxAction>) => {
+    if ('rooms' in data && data.rooms) applyRooms(data.rooms);
+    if (entry.type !== 'send_message' || !('message' in data)) return;
+    // Our plaintext copy takes the server's seq (receipts, unread counts)
+    const local = storage.getMessages().find(m => m.id === entry.id);
+    if (!local || data.message.seq === undefined) return;
+    const sequenced = { ...local, seq: data.message.seq };
+    storage.saveIncomingMessage(sequenced);
+    setMessages(prev => mergeMessages(prev, [sequenced]));
+  };
+
+  // Send due entries in order. A transient failure ends the pass (later
+  // entries wait behind it); `force` skips the backoff, e.g. on reconnect.
+  const flushOutbox = async (force = false) => {
+    if (!currentUser || flushingOutboxRef.current) return;
+    flushingOutboxRef.current = true;
+    try {
+      for (const { id } of outboxRef.current) {
+        // Re-read: the entry may have been discarded or retried meanwhile
+        const entry = outboxRef.current.find(e => e.id === id);
+        if (!entry || entry.userId !== currentUser.id || entry.status !== 'pending') continue;
+        if (!force && entry.nextAttemptAt > Date.now()) break;
+        let result: ActionResult<OutboxAction>;
+        try {
+          result = await sendAction(entry.type, entry.payload, entry.id);
+        } catch (e) {
+          result = { ok: false, status: 0, error: { error: e instanceof Error ? e.message : 'Network error' } };
+        }
+        if (result.ok) {
+          updateOutbox(entries => entries.filter(e => e.id !== id));
+          onOutboxDelivered(entry, result.data);
+          continue;
+        }
+        const attempts = entry.attempts + 1;
+        const transient = isTransientFailure(result.status);
+        const error = result.error.error;
+        if (entry.type === 'send_message' || (transient && attempts < MAX_ATTEMPTS)) {
+          const failed = !transient || attempts >= MAX_ATTEMPTS;
+          updateOutbox(entries => entries.map(e => (e.id === id
+            ? { ...e, attempts, error, status: failed ? 'failed' : 'pending', nextAttemptAt: Date.now() + retryDelay(attempts) }
+            : e)));
+        } else {
+          // Room changes and key updates have no bubble to retry from: log and drop
+          console.warn(`Outbox ${entry.type} failed:`, error);
+          updateOutbox(entries => entries.filter(e => e.id !== id));
+        }
+        if (transient) break;
+      }
+    } finally {
+      flushingOutboxRef.current = false;
+    }
+  };
+
+  flushOutboxRef.current = flushOutbox;
+
+  const outboxEntryFor = (messageId: string) =>
+    outbox.find(e => e.type === 'send_message' && (e.id === messageId || e.payload.targetId === messageId));
+
+  const retryOutbox = (entryId: string) => {
+    updateOutbox(entries => entries.map(e => (e.id === entryId ? { ...e, status: 'pending', attempts: 0, nextAttemptAt: Date.now() } : e)));
+    flushOutboxRef.current();
+  };
+
+  // Drop a failed send along with its local copy (an edit or delete is undone)
+  const discardOutbox = (entryId: string) => {
+    const entry = outboxRef.current.find(e => e.id === entryId);
+    if (!entry || entry.status !== 'failed') return;
+    updateOutbox(entries => entries.filter(e => e.id !== entryId));
+    if (entry.type !== 'send_message') return;
+    storage.removeMessage(entry.id);
+    setMessages(prev => prev.filter(m => m.id !== entry.id));
+  };
+
+  const canModifyMessage = (message: Message) =>
+    !!currentUser && serverSupports('edits') && isEditable(message) && mayModifyMessage(currentUser.id, message);
+
+  // Edits and deletes are events in the original's room; the original stays in place
+  const editMessage = async (messageId: string, content: string) => {
+    const target = timelineMessages.find(m => m.id === messageId);
+    if (!target || !canModifyMessage(target) || !canSendTo(target.roomId)) return;
+    const body: MessageBody = { content };
+    const toSend = await sealMessage(newMessageId(), 'edit', body, target.roomId, target.id);
+    await postMessage(body, toSend);
+  };
+
+  const deleteMessage = async (messageId: string) => {
+    const target = timelineMessages.find(m => m.id === messageId);
+    if (!target || !canModifyMessage(target) || !canSendTo(target.roomId)) return;
+    const body: MessageBody = { content: '' };
+    const toSend = await sealMessage(newMessageId(), 'delete', body, target.roomId, target.id);
+    await postMessage(body, toSend);
+  };
+
+  const newMessageId = () => `${Date.now()}-${Math.random().toString(36).substr(2, 9)}`;
+
+  const sendMessage = async (content: string, roomId?: string, replyTo?: string) => {
+    if (!currentUser || !canSendTo(roomId)) return;
+
+    const parent = replyTo && serverSupports('threads') ? messages.find(m => m.id === replyTo) : undefined;
+    const body: MessageBody = parent ? { content, replyTo: parent.id, threadRootId: threadRootOf(parent) } : { content };
+    const mentions = resolveMentions(content, mentionCandidates(roomId));
+    if (mentions.length > 0) body.mentions = mentions;
+    const toSend = await sealMessage(newMessageId(), 'text', body, roomId);
+    await postMessage(body, toSend);
+  };
+
+  // Add or withdraw our `emoji` reaction on a message (a sequenced 'reaction' event in its room)
+  const toggleReaction = async (messageId: string, emoji: string) => {
+    if (!currentUser || !serverSupports('reactions')) return;
+    const target = messages.find(m => m.id === messageId);
+    if (!target || !canSendTo(target.roomId)) return;
+    const event: ReactionEvent = {
+      messageId,
+      emoji,
+      active: !(reactions[messageId]?.[emoji] ?? []).includes(currentUser.id),
     };
-    storage.addMessage(localMessage);
-    setMessages(prev => mergeMessages(prev, [localMessage]));
-
-    // Send to server
-    try {
-      await fetch('/api/ws', {
-        method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({
-          type: 'send_message',
-          payload: toSend
-        })
-      });
-    } catch (error) {
-      console.error('Send message error:', error);
-    }
+    const body: MessageBody = { content: JSON.stringify(event) };
+    const toSend = await sealMessage(newMessageId(), 'reaction', body, target.roomId);
+    await postMessage(body, toSend);
   };
 
   const addFileTransfer = (transfer: FileTransfer) => {
@@ -517,8 +1240,9 @@ export const AppProvider = ({ children }: { children: ReactNode }) => {
     // Drop receiver buffers to avoid re-adding in this session
     receiversRef.current.delete(transferId);
     // Mark dismissed if current user is receiver
-    if (t?.receiverId === currentUser?.id) {
+    if (currentUser && t?.receiverId === currentUser.id) {
       storage.addDismissedTransfer(transferId);
+      deleteChunks(currentUser.id, transferId).catch(e => console.warn('Failed to drop stored chunks:', e));
     }
     storage.removeFileTransfer(transferId);
     setFileTransfers(storage.getFileTransfers());
@@ -541,22 +1265,21 @@ export const AppProvider = ({ children }: { children: ReactNode }) => {
     storage.addChatRoom(room);
     setChatRooms(storage.getChatRooms());
 
-    // Inform server so others can see public rooms
+    // Inform server so others can see public rooms (queued while offline)
+    enqueueAction({ type: 'create_room', payload: room });
+  };
+
+  const openDirectMessage = async (userId: string): Promise<string | null> => {
+    if (!currentUser || userId === currentUser.id || !serverSupports('direct-messages')) return null;
     try {
-      const res = await fetch('/api/ws', {
-        method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({ type: 'create_room', payload: room })
-      });
-      if (res.ok) {
-        const data = await res.json();
-        if (Array.isArray(data.rooms)) {
-          setChatRooms(data.rooms);
-          localStorage.setItem('lanhub_chat_rooms', JSON.stringify(data.rooms));
-        }
-      }
+      const result = await callAction('open_direct', { userId });
+      if (!result.ok) return null;
+      setChatRooms(result.data.rooms);
+      storage.setChatRooms(result.data.rooms);
+      return result.data.room.id;
     } catch (e) {
-      console.warn('Failed to create room on server:', e);
+      console.warn('Failed to open direct message:', e);
+      return null;
     }
   };
 
@@ -576,50 +1299,59 @@ export const AppProvider = ({ children }: { children: ReactNode }) => {
     }
   };
 
-  const generateInviteCode = (roomId: string): string | null => {
-    if (!currentUser) return null;
+  // Invite codes carry a token the server issued for the room (to its owner
+  // or room admins); joining without one is refused for private rooms
+  const createInviteCode = async (roomId: string): Promise<string | null> => {
+    if (!currentUser || !serverSupports('room-invites')) return null;
     const room = storage.getChatRooms().find(r => r.id === roomId);
-    if (!room || room.isPublic) return null;
-    // Ensure current user is participant
-    if (!room.participants.includes(currentUser.id)) return null;
-    const payload = {
-      v: 1,
-      roomId: room.id,
-      name: room.name,
-      isPublic: false,
-      inviterId: currentUser.id,
-      ts: Date.now(),
-    };
-    return b64url(JSON.stringify(payload));
+    if (!room || room.isPublic || room.isDirect) return null;
+    try {
+      const result = await callAction('create_invite', { roomId });
+      if (!result.ok) {
+        console.warn('Failed to create invite:', result.error.error);
+        return null;
+      }
+      return b64url(JSON.stringify({ v: 2, roomId: room.id, token: result.data.token }));
+    } catch (e) {
+      console.warn('Failed to create invite, server unreachable:', e);
+      return null;
+    }
   };
 
-  const joinRoomWithCode = (code: string): boolean => {
-    if (!currentUser) return false;
-    let payload: any;
+  const joinRoomWithCode = async (code: string): Promise<string | null> => {
+    if (!currentUser) return 'Not signed in';
+    let payload: { v?: number; roomId?: unknown; token?: unknown };
     try {
-      payload = JSON.parse(b64urlDecode(code));
+      payload = JSON.parse(b64urlDecode(code.trim()));
     } catch {
-      return false;
+      return 'Invalid invitation code';
+    }
+    if (!payload || payload.v !== 2 || typeof payload.roomId !== 'string' || typeof payload.token !== 'string') {
+      return 'Invalid invitation code';
+    }
+    try {
+      const result = await callAction('join_room', { roomId: payload.roomId, token: payload.token });
+      if (!result.ok) {
+        return result.status === 403 ? 'This invitation has expired or was revoked' : result.error.error;
+      }
+      // The owner now sends us the room key (we are a participant)
+      setChatRooms(result.data.rooms);
+      storage.setChatRooms(result.data.rooms);
+      return null;
+    } catch (e) {
+      console.warn('Failed to join room:', e);
+      return 'Server unreachable';
     }
-    if (!payload || payload.v !== 1 || !payload.roomId || !payload.name) return false;
+  };
 
-    const existing = storage.getChatRooms().find(r => r.id === payload.roomId);
-    if (existing) {
-      const participants = Array.from(new Set([...existing.participants, currentUser.id, payload.inviterId].filter(Boolean)));
-      storage.updateChatRoom(existing.id, { participants });
-    } else {
-      const room: ChatRoom = {
-        id: payload.roomId,
-        name: payload.name,
-        participants: Array.from(new Set([currentUser.id, payload.inviterId].filter(Boolean))),
-        createdBy: payload.inviterId || currentUser.id,
-        createdAt: payload.ts || Date.now(),
-        isPublic: false,
-      };
-      storage.addChatRoom(room);
+  const revokeInvites = async (roomId: string): Promise<boolean> => {
+    try {
+      const result = await callAction('revoke_invites', { roomId });
+      return result.ok;
+    } catch (e) {
+      console.warn('Failed to revoke invites:', e);
+      return false;
     }
-    setChatRooms(storage.getChatRooms());
-    return true;
   };
 
   const simulateDeviceDiscovery = async () => {
@@ -644,132 +1376,548 @@ export const AppProvider = ({ children }: { children: ReactNode }) => {
 
       // Register device with server
       try {
-        await fetch('/api/ws', {
-          method: 'POST',
-          headers: { 'Content-Type': 'application/json' },
-          body: JSON.stringify({
-            type: 'register_device',
-            payload: device
-          })
-        });
+        await callAction('register_device', device);
       } catch (error) {
         console.error('Device registration error:', error);
       }
     }
   };
 
-  // Distribute room key to online users (admin only)
-  const distributeRoomKeyIfAdmin = async () => {
-    if (!currentUser || !currentUser.isAdmin || !roomKey) return;
-    const jwk = await exportAesJwk(roomKey);
-    for (const u of users) {
-      if (u.id === currentUser.id) continue;
-      if (distributedToRef.current.has(u.id)) continue;
-      const theirPub = (u as any).publicKeyJwk as JWK | undefined;
-      if (!theirPub) continue;
-      try {
-        const env = await packRoomKeyForRecipient(roomKey, theirPub);
-        await fetch('/api/ws', {
-          method: 'POST',
-          headers: { 'Content-Type': 'application/json' },
-          body: JSON.stringify({ type: 'key_update', payload: { targetUserId: u.id, fromUserId: currentUser.id, envelope: env } })
-        });
-        // mark as distributed (best-effort)
-        distributedToRef.current.add(u.id);
-      } catch (e) {
-        console.error('Failed to send key to user', u.id, e);
+  // Keys uid uses now: as reported while online, else as last registered
+  const identityOf = (uid: string, directory: IdentityKeys = identityKeys) =>
+    users.find(u => u.id === uid) ?? directory[uid];
+
+  // Fetch the identity keys of all accounts (unchanged when unsupported)
+  const refreshIdentityKeys = async (): Promise<IdentityKeys> => {
+    if (!serverSupports('key-directory')) return identityKeys;
+    try {
+      const result = await callAction('list_identity_keys', {});
+      if (!result.ok) return identityKeys;
+      const next: IdentityKeys = {};
+      for (const k of result.data.keys) next[k.userId] = { publicKeyJwk: k.publicKeyJwk, signingKeyJwk: k.signingKeyJwk };
+      setIdentityKeys(next);
+      return next;
+    } catch (e) {
+      console.warn('Failed to fetch identity keys:', e);
+      return identityKeys;
+    }
+  };
+
+  useEffect(() => {
+    if (currentUser) refreshIdentityKeys();
+  }, [currentUser?.id, serverInfo]);
+
+  // True when uid's reported keys differ from the ones we verified
+  const keyChangedSinceVerified = async (uid: string, directory: IdentityKeys = identityKeys): Promise<boolean> => {
+    const pinned = trustedKeys[uid];
+    const them = identityOf(uid, directory);
+    if (!pinned || !them?.publicKeyJwk) return false;
+    if ((await publicKeyFingerprint(them.publicKeyJwk)) !== pinned.fingerprint) return true;
+    if (!pinned.signingFingerprint) return false;
+    return !them.signingKeyJwk || (await publicKeyFingerprint(them.signingKeyJwk)) !== pinned.signingFingerprint;
+  };
+
+  // Users who may read a room: participants of private rooms, every known
+  // account (online or not) otherwise
+  const roomReaders = (roomId: string, directory: IdentityKeys = identityKeys): string[] => {
+    const everyone = Array.from(new Set([...users.map(u => u.id), ...Object.keys(directory)]));
+    if (roomId === GLOBAL_ROOM_ID) return everyone;
+    const room = chatRooms.find(r => r.id === roomId);
+    if (!room) return [];
+    return room.isPublic ? everyone : room.participants;
+  };
+
+  // Room key epoch our sender chain must belong to (moves on after rotation)
+  const senderChainEpoch = (roomId: string) =>
+    roomId === GLOBAL_ROOM_ID ? 0 : (chatRooms.find(r => r.id === roomId)?.keyVersion ?? 0);
+
+  // Send every reader the current state of our sender chains (signed envelopes
+  // via key_update, queued on the server for offline readers). Readers
+  // joining later get the chain from that point on.
+  const distributeSenderChains = async (directory: IdentityKeys = identityKeys) => {
+    if (!currentUser || !userKeyPair?.signingPrivateJwk || !serverSupports('sender-keys')) return;
+    for (const [roomId, chain] of Object.entries(getOwnChains())) {
+      // Superseded chains are replaced on the next send
+      if (chain.epoch < senderChainEpoch(roomId)) continue;
+      for (const uid of roomReaders(roomId, directory)) {
+        if (uid === currentUser.id) continue;
+        const tag = `sender:${roomId}:${chain.chainId}:${uid}`;
+        if (distributedToRef.current.has(tag)) continue;
+        const theirPub = identityOf(uid, directory)?.publicKeyJwk;
+        if (!theirPub) continue;
+        if (await keyChangedSinceVerified(uid, directory)) {
+          console.warn('Identity key of verified user changed; withholding sender key', roomId, uid);
+          continue;
+        }
+        // Latest snapshot: the chain may have ratcheted since the loop started
+        const current = getOwnChain(roomId);
+        if (!current || current.chainId !== chain.chainId) break;
+        try {
+          const env = await packSenderKeyForRecipient(
+            base64ToBytes(current.chainKeyB64),
+            theirPub,
+            { roomId, senderId: currentUser.id, chainId: current.chainId, iteration: current.iteration },
+            userKeyPair.signingPrivateJwk,
+          );
+          enqueueAction({ type: 'key_update', payload: { targetUserId: uid, envelope: env } });
+          distributedToRef.current.add(tag);
+        } catch (e) {
+          console.error('Failed to send sender key to user', roomId, uid, e);
+        }
+      }
+    }
+  };
+
+  // Next message key of our sender chain for roomId (null when unsupported)
+  const nextSenderMessageKey = async (roomId: string) => {
+    if (!hasSubtle() || !userKeyPair?.signingPrivateJwk || !serverSupports('sender-keys')) return null;
+    const { started } = await ensureOwnChain(roomId, senderChainEpoch(roomId));
+    // Hand a fresh chain to every reader before its first key is used
+    if (started) await distributeSenderChains(await refreshIdentityKeys());
+    return nextOwnMessageKey(roomId);
+  };
+
+  useEffect(() => {
+    distributeSenderChains();
+  }, [users, chatRooms, currentUser?.id, trustedKeys, userKeyPair, identityKeys]);
+
+  // Retry queued sender and room keys once their sender's signing key is
+  // known (and, for global, the distributor is online)
+  useEffect(() => {
+    processRoomKeys();
+    processSenderKeys();
+  }, [users, signingKeys, userKeyPair]);
+
+  // Distribute the room keys we manage: the global key (app admins) to every
+  // online user, room keys (owner/admins) to participants, or to everyone
+  // online for public rooms.
+  const distributeRoomKeys = async () => {
+    // Recipients refuse unsigned room keys
+    if (!currentUser || !userKeyPair?.signingPrivateJwk) return;
+    for (const roomId of Object.keys(roomKeys)) {
+      // Only the current epoch is distributed; members removed since the last
+      // rotation are no longer in the recipient list
+      const entry = keyForRoom(roomId);
+      if (!entry) continue;
+      let recipients: string[];
+      if (roomId === GLOBAL_ROOM_ID) {
+        if (!currentUser.isAdmin) continue;
+        recipients = users.map(u => u.id);
+      } else {
+        const room = chatRooms.find(r => r.id === roomId);
+        // Both members of a direct room derive its key themselves
+        if (!room || room.isDirect) continue;
+        const canManage = room.createdBy === currentUser.id || (room.admins || []).includes(currentUser.id);
+        if (!canManage) continue;
+        recipients = room.isPublic ? users.map(u => u.id) : room.participants;
+      }
+      for (const uid of recipients) {
+        if (uid === currentUser.id) continue;
+        const tag = `${roomId}:${entry.version}:${uid}`;
+        if (distributedToRef.current.has(tag)) continue;
+        const theirPub = users.find(u => u.id === uid)?.publicKeyJwk;
+        if (!theirPub) continue;
+        // Never wrap a room key for a key that replaced one we verified
+        if (await keyChangedSinceVerified(uid)) {
+          console.warn('Identity key of verified user changed; withholding room key', roomId, uid);
+          continue;
+        }
+        try {
+          const env = await packRoomKeyForRecipient(entry.key, theirPub, roomId, entry.version, currentUser.id, userKeyPair.signingPrivateJwk);
+          // Queued in order, so it reaches the server before messages sealed with the key
+          enqueueAction({ type: 'key_update', payload: { targetUserId: uid, envelope: env } });
+          distributedToRef.current.add(tag);
+        } catch (e) {
+          console.error('Failed to send room key to user', roomId, uid, e);
+        }
       }
     }
   };
 
-  // When users list or roomKey changes, try distribution
+  // When users, rooms or keys change, try distribution
+  useEffect(() => {
+    distributeRoomKeys();
+  }, [users, roomKeys, chatRooms, currentUser?.id, trustedKeys, userKeyPair]);
+
+  // Fingerprint every identity key the server reports, to compare with pins
   useEffect(() => {
-    distributeRoomKeyIfAdmin();
-  }, [users, roomKey, currentUser?.id]);
+    (async () => {
+      const next: Record<string, { fingerprint: string; signingFingerprint?: string }> = {};
+      for (const u of users) {
+        if (!u.publicKeyJwk) continue;
+        try {
+          next[u.id] = {
+            fingerprint: await publicKeyFingerprint(u.publicKeyJwk),
+            signingFingerprint: u.signingKeyJwk ? await publicKeyFingerprint(u.signingKeyJwk) : undefined,
+          };
+        } catch (e) {
+          console.warn('Failed to fingerprint identity key:', u.id, e);
+        }
+      }
+      setKeyFingerprints(next);
+    })();
+  }, [users]);
+
+  // Remember signing keys as users are seen (latest reported key wins)
+  useEffect(() => {
+    const known = loadKnownSigningKeys();
+    let changed = false;
+    for (const u of users) {
+      if (!u.signingKeyJwk || u.id === currentUser?.id) continue;
+      if (JSON.stringify(known[u.id]) === JSON.stringify(u.signingKeyJwk)) continue;
+      known[u.id] = u.signingKeyJwk;
+      changed = true;
+    }
+    if (!changed) return;
+    saveKnownSigningKeys(known);
+    setSigningKeys(known);
+  }, [users]);
+
+  const getTrustState = (userId: string): TrustState => {
+    const pinned = trustedKeys[userId];
+    const reported = keyFingerprints[userId];
+    if (!pinned) return reported ? 'unverified' : 'no_key';
+    // Offline users keep their verified state until a key is reported again
+    if (!reported) return 'verified';
+    if (reported.fingerprint !== pinned.fingerprint) return 'changed';
+    if (pinned.signingFingerprint && reported.signingFingerprint !== pinned.signingFingerprint) return 'changed';
+    return 'verified';
+  };
+
+  const keyChangedUserIds = Object.keys(trustedKeys).filter(id => getTrustState(id) === 'changed');
+
+  const getSafetyNumber = async (userId: string): Promise<SafetyNumber | null> => {
+    const them = users.find(u => u.id === userId);
+    if (!currentUser || !userKeyPair || !them?.publicKeyJwk) return null;
+    return computeSafetyNumber(
+      currentUser.id, { publicJwk: userKeyPair.publicJwk, signingJwk: userKeyPair.signingPublicJwk },
+      userId, { publicJwk: them.publicKeyJwk, signingJwk: them.signingKeyJwk },
+    );
+  };
+
+  // Pin the key currently reported for userId (also accepts a changed key)
+  const verifyUser = async (userId: string): Promise<boolean> => {
+    const them = users.find(u => u.id === userId);
+    if (!them?.publicKeyJwk) return false;
+    const fingerprint = await publicKeyFingerprint(them.publicKeyJwk);
+    const signingFingerprint = them.signingKeyJwk ? await publicKeyFingerprint(them.signingKeyJwk) : undefined;
+    const next = { ...loadTrustedKeys(), [userId]: { fingerprint, signingFingerprint, verifiedAt: Date.now() } };
+    saveTrustedKeys(next);
+    setTrustedKeys(next);
+    return true;
+  };
+
+  const unverifyUser = (userId: string) => {
+    const next = { ...loadTrustedKeys() };
+    delete next[userId];
+    saveTrustedKeys(next);
+    setTrustedKeys(next);
+  };
 
-  // If admin with no room key yet, create one
+  // Generate keys we are responsible for but lack: global (app admin) and
+  // rooms we own. Room epochs are claimed on the server first (like
+  // rotation), so two tabs or devices cannot mint different keys for the
+  // same version.
   useEffect(() => {
     (async () => {
       if (!currentUser) return;
-      if (currentUser.isAdmin && !roomKey) {
+      const missing: string[] = [];
+      if (currentUser.isAdmin && !roomKeys[GLOBAL_ROOM_ID]) missing.push(GLOBAL_ROOM_ID);
+      for (const r of chatRooms) {
+        if (r.createdBy === currentUser.id && !r.isDirect && !roomKeys[r.id]) missing.push(r.id);
+      }
+      for (const roomId of missing) {
+        if (generatingKeysRef.current.has(roomId)) continue;
+        generatingKeysRef.current.add(roomId);
+        try {
+          // Another tab may have stored the key meanwhile
+          const saved = loadRoomKeyJwks()[roomId];
+          if (saved?.epochs[saved.current]) {
+            await storeRoomKey(roomId, saved.current, await importAesJwk(saved.epochs[saved.current]));
+            continue;
+          }
+          let k: CryptoKey;
+          try {
+            k = await generateRoomKey();
+          } catch (e) {
+            console.warn('Failed to generate room key (likely non-secure context). Use HTTPS or set a passphrase in localStorage (lanhub_room_passphrase).', e);
+            break;
+          }
+          const claimed = chatRooms.find(r => r.id === roomId)?.keyVersion ?? 0;
+          // The global key has no server-side room to claim an epoch on
+          if (roomId === GLOBAL_ROOM_ID || !serverSupports('key-rotation')) {
+            await storeRoomKey(roomId, claimed + 1, k);
+            continue;
+          }
+          const result = await callAction('rotate_room_key', { roomId, fromVersion: claimed });
+          // 409: another tab or admin claimed it first, their key arrives via key_update
+          if (!result.ok) continue;
+          await storeRoomKey(roomId, result.data.keyVersion, k);
+          setChatRooms(result.data.rooms);
+        } catch (e) {
+          console.warn('Failed to generate room key:', roomId, e);
+        } finally {
+          generatingKeysRef.current.delete(roomId);
+        }
+      }
+    })();
+  }, [currentUser, roomKeys, chatRooms, serverInfo]);
+
+  // Derive the pairwise key of our direct rooms once the peer's identity key
+  // is known (epoch 1, so it supersedes a passphrase key). A key that replaced
+  // one we verified is not used.
+  useEffect(() => {
+    (async () => {
+      if (!currentUser || !userKeyPair) return;
+      for (const room of chatRooms) {
+        if (!room.isDirect || !room.participants.includes(currentUser.id) || roomKeys[room.id]) continue;
+        const peerId = directPeer(room, currentUser.id);
+        const theirPub = users.find(u => u.id === peerId)?.publicKeyJwk;
+        if (!peerId || !theirPub || generatingKeysRef.current.has(room.id)) continue;
+        if (await keyChangedSinceVerified(peerId)) {
+          console.warn('Identity key of verified user changed; not deriving direct key', room.id, peerId);
+          continue;
+        }
+        generatingKeysRef.current.add(room.id);
+        try {
+          await storeRoomKey(room.id, 1, await deriveDirectKey(userKeyPair.privateJwk, theirPub, room.id));
+        } catch (e) {
+          console.warn('Failed to derive direct message key:', room.id, e);
+        } finally {
+          generatingKeysRef.current.delete(room.id);
+        }
+      }
+    })();
+  }, [currentUser, userKeyPair, chatRooms, users, roomKeys, trustedKeys]);
+
+  // Rotate room keys after membership shrank (kick/leave). Owner/admins claim
+  // the next epoch on the server first so only one of them mints the key;
+  // distributeRoomKeys then wraps it for the remaining participants.
+  useEffect(() => {
+    (async () => {
+      if (!currentUser || !serverSupports('key-rotation')) return;
+      for (const room of chatRooms) {
+        if (!room.rekeyNeeded) continue;
+        const canManage = room.createdBy === currentUser.id || (room.admins || []).includes(currentUser.id);
+        if (!canManage || rotatingKeysRef.current.has(room.id)) continue;
+        rotatingKeysRef.current.add(room.id);
         try {
           const k = await generateRoomKey();
-          setRoomKey(k);
-          const jwk = await exportAesJwk(k);
-          saveRoomKeyJwk(jwk);
+          const fromVersion = Math.max(roomKeys[room.id]?.current ?? 0, room.keyVersion ?? 0);
+          const result = await callAction('rotate_room_key', { roomId: room.id, fromVersion });
+          // 409: another admin rotated first, their key arrives via key_update
+          if (!result.ok) continue;
+          await storeRoomKey(room.id, result.data.keyVersion, k);
+          setChatRooms(result.data.rooms);
         } catch (e) {
-          console.warn('Failed to generate room key (likely non-secure context). Use HTTPS or set a passphrase in localStorage (lanhub_room_passphrase).', e);
+          console.warn('Failed to rotate room key:', room.id, e);
+        } finally {
+          rotatingKeysRef.current.delete(room.id);
         }
       }
     })();
-  }, [currentUser, roomKey]);
+  }, [currentUser, chatRooms, serverInfo]);
 
-  // Fallback: derive room key from passphrase stored locally (offline-friendly)
+  // Fallback: derive room keys from a passphrase stored locally (offline-friendly).
+  // Version 0 so any distributed key supersedes it.
   useEffect(() => {
     (async () => {
-      if (roomKey) return;
       const pass = localStorage.getItem('lanhub_room_passphrase');
-      if (pass) {
+      if (!pass) return;
+      const { deriveRoomKeyFromPassphrase } = await import('@/lib/crypto');
+      const roomIds = [GLOBAL_ROOM_ID, ...chatRooms.filter(r => !r.isDirect).map(r => r.id)].filter(id => !roomKeys[id]);
+      for (const roomId of roomIds) {
         try {
-          const k = await (await import('@/lib/crypto')).deriveRoomKeyFromPassphrase(pass);
-          setRoomKey(k);
-          const jwk = await exportAesJwk(k);
-          saveRoomKeyJwk(jwk);
+          const k = roomId === GLOBAL_ROOM_ID
+            ? await deriveRoomKeyFromPassphrase(pass)
+            : await deriveRoomKeyFromPassphrase(pass, `lanhub-passphrase-salt-v1:${roomId}`);
+          await storeRoomKey(roomId, 0, k);
         } catch (e) {
           console.warn('Failed to derive key from passphrase:', e);
+          break;
         }
       }
     })();
-  }, [roomKey]);
+  }, [roomKeys, chatRooms]);
 
-  // When a room key becomes available later, try to decrypt any encrypted messages in memory
+  // When room keys arrive later, decrypt any still-encrypted messages in memory
+  const encryptedCount = messages.filter(m => m.enc).length;
   useEffect(() => {
     (async () => {
-      if (!roomKey) return;
-      const out: Message[] = [] as any;
-      const seen = new Set<string>();
-      for (const m of messages as Message[]) {
-        if (seen.has(m.id)) continue;
-        seen.add(m.id);
-        if (m.enc && m.nonce) {
-          try {
-            const plain = await aesDecryptString(roomKey, m.content, m.nonce);
-            out.push({ ...m, content: plain });
-          } catch {
-            out.push(m);
-          }
-        } else {
-          out.push(m);
-        }
-      }
-      setMessages(out);
+      if (encryptedCount === 0) return;
+      const pending = messages.filter(m => m.enc);
+      const decrypted = (await decryptMessages(pending)).filter(m => !m.enc);
+      if (decrypted.length === 0) return;
+      decrypted.forEach((m) => storage.saveIncomingMessage(m));
+      setMessages(prev => mergeMessages(prev, decrypted));
     })();
-  }, [roomKey]);
+  }, [roomKeys, encryptedCount, senderKeysTick]);
+
+  // Outbox: restore what a previous session left unsent
+  useEffect(() => {
+    outboxRef.current = loadOutbox();
+    setOutbox(outboxRef.current);
+  }, []);
+
+  // Retry when the head of the outbox is due
+  useEffect(() => {
+    if (!currentUser) return;
+    const head = outbox.find(e => e.userId === currentUser.id && e.status === 'pending');
+    if (!head) return;
+    const timer = setTimeout(() => flushOutboxRef.current(), Math.max(0, head.nextAttemptAt - Date.now()));
+    return () => clearTimeout(timer);
+  }, [outbox, currentUser?.id]);
+
+  // Back online or reconnected: send right away instead of waiting out the backoff
+  useEffect(() => {
+    if (!currentUser) return;
+    flushOutboxRef.current(true);
+    const onOnline = () => flushOutboxRef.current(true);
+    window.addEventListener('online', onOnline);
+    return () => window.removeEventListener('online', onOnline);
+  }, [transport, currentUser?.id]);
+
+  // Index messages as they are decrypted, edited or deleted (only what changed)
+  useEffect(() => {
+    if (!currentUser || typeof indexedDB === 'undefined') return;
+    const indexed = indexedRef.current;
+    if (indexed.userId !== currentUser.id) indexedRef.current = { userId: currentUser.id, versions: new Map() };
+    const versions = indexedRef.current.versions;
+    const changed = timelineMessages.filter(m => {
+      const version = `${m.enc ? 'enc' : ''}:${m.editedAt ?? ''}:${m.deleted ? 'deleted' : ''}`;
+      if (versions.get(m.id) === version) return false;
+      versions.set(m.id, version);
+      return true;
+    });
+    updateSearchIndex(currentUser.id, changed).catch(e => console.warn('Search index update failed:', e));
+  }, [timelineMessages, currentUser?.id]);
+
+  // Re-render when the next typing signal runs out
+  useEffect(() => {
+    const expiries = Object.values(typing).flatMap(typists => Object.values(typists));
+    if (expiries.length === 0) return;
+    const timer = setTimeout(() => {
+      const now = Date.now();
+      setTypingState(prev => Object.fromEntries(
+        Object.entries(prev).map(([key, typists]) => [key, Object.fromEntries(Object.entries(typists).filter(([, at]) => at > now))])
+      ));
+    }, Math.max(0, Math.min(...expiries) - Date.now()) + 50);
+    return () => clearTimeout(timer);
+  }, [typing]);
+
+  // Deleted messages: drop the original's content and its edits from memory
+  // and localStorage, keeping tombstones
+  useEffect(() => {
+    const deletedIds = new Set(timelineMessages.filter(m => m.deleted).map(m => m.id));
+    if (deletedIds.size === 0) return;
+    const stale = messages.filter(m => !m.deleted && (deletedIds.has(m.id) || (m.type === 'edit' && !!m.targetId && deletedIds.has(m.targetId))));
+    if (stale.length === 0) return;
+    const scrubbed = stale.map((m): Message => tombstone(m));
+    storage.mergeMessages(scrubbed);
+    setMessages(prev => mergeMessages(prev, scrubbed));
+  }, [timelineMessages]);
 
   // Poll incoming file transfers for receiver side
   useEffect(() => {
     if (!currentUser) return;
     let stop = false;
+    type Receiver = NonNullable<ReturnType<typeof receiversRef.current.get>>;
+    type Listed = ApiResponse<'list_file_transfers'>['transfers'][number];
+
+    // One chunk as raw bytes, over the binary endpoint when the server has it
+    const fetchChunk = async (transferId: string, index: number): Promise<ChunkBytesResult> => {
+      if (serverSupports('binary-chunks')) return downloadChunkBytes(transferId, index);
+      const result = await callAction('download_file_chunk', { transferId, index });
+      if (!result.ok) return result;
+      return { ok: true, data: base64ToBytes(result.data.data), nonce: result.data.nonce };
+    };
+
+    // Fetch, decrypt and store `indices` through the chunk pipeline
+    const downloadChunks = async (t: Listed, rec: Receiver, indices: number[], isCancelled: () => boolean) => {
+      const tracker = trackTransfer(t.id, t.fileSize);
+      const task = async (index: number): Promise<ChunkOutcome> => {
+        const chunkResult = await fetchChunk(t.id, index);
+        if (!chunkResult.ok) {
+          if (chunkResult.status === 404) return 'skip'; // not uploaded (any more)
+          return isTransientFailure(chunkResult.status) ? 'retry' : 'fail';
+        }
+        let decrypted: Uint8Array;
+        if (chunkResult.nonce) {
+          const entry = keyForRoom(t.roomId, t.keyVersion);
+          if (!entry) return 'skip'; // wait until we have the room's key to decrypt
+          try {
+            decrypted = await aesDecryptRaw(entry.key, chunkResult.data, base64ToBytes(chunkResult.nonce), t.signature ? chunkAad(t.id, index) : undefined);
+          } catch (e) {
+            console.error('Failed to decrypt chunk', index, 'of', t.id, e);
+            return 'skip';
+          }
+        } else {
+          // insecure testing fallback (plaintext)
+          decrypted = chunkResult.data;
+        }
+        // Storing holds the chunk's slot, so a slow disk slows the window down
+        try {
+          await saveChunk(currentUser.id, t.id, index, decrypted);
+        } catch (e) {
+          // No IndexedDB (private mode, quota): this page keeps it
+          console.warn('Failed to store chunk:', e);
+          rec.unsaved.set(index, decrypted);
+        }
+        rec.downloaded.add(index);
+        tracker.add(decrypted.byteLength, rec.downloaded.size / rec.total);
+        return 'done';
+      };
+      try {
+        await runPipeline(indices, task, { maxWindow: transferConcurrency(), isCancelled });
+      } finally {
+        tracker.finish();
+      }
+    };
+
+    // Once every chunk is held (now, or already before a reload), assemble the Blob and set downloadUrl
+    const assembleIfComplete = async (id: string, rec: Receiver) => {
+      if (rec.downloaded.size < rec.total || rec.assembled) return;
+      const stored = await loadChunks(currentUser.id, id).catch(() => new Map<number, Uint8Array>());
+      const parts: BlobPart[] = [];
+      for (let i = 0; i < rec.total; i++) {
+        const b = rec.unsaved.get(i) ?? stored.get(i);
+        if (!b) {
+          // Gone from storage meanwhile: fetch it again
+          rec.downloaded.delete(i);
+          continue;
+        }
+        parts.push(b);
+      }
+      if (parts.length === rec.total && receiversRef.current.get(id) === rec) {
+        rec.assembled = true;
+        const blob = new Blob(parts, { type: 'application/octet-stream' });
+        const url = URL.createObjectURL(blob);
+        storage.updateFileTransfer(id, { downloadUrl: url, status: 'completed', progress: 100 });
+        setFileTransfers(storage.getFileTransfers());
+      }
+    };
+
+    // Poll faster while downloads are incomplete
     const tick = async () => {
       if (stop) return;
+      let incomplete = false;
       try {
-        const res = await fetch('/api/ws', {
-          method: 'POST',
-          headers: { 'Content-Type': 'application/json' },
-          body: JSON.stringify({ type: 'list_file_transfers', payload: { userId: currentUser.id } })
-        });
-        const data = await res.json();
-        if (data.success && Array.isArray(data.transfers)) {
+        const result = await callAction('list_file_transfers', {});
+        if (result.ok) {
           const dismissed = new Set(storage.getDismissedTransfers());
-          for (const t of data.transfers as Array<{ id: string; totalChunks: number; fileName: string; fileSize: number; senderId: string; senderName: string; availableChunks: number[] }>) {
+          for (const t of result.data.transfers) {
             if (dismissed.has(t.id)) continue;
             if (t.senderId === currentUser.id) {
               // Skip adding a local receiver record for our own transfers
               continue;
             }
-            if (!receiversRef.current.has(t.id)) {
-              receiversRef.current.set(t.id, { total: t.totalChunks, buffers: new Array(t.totalChunks).fill(null), downloaded: new Set(), meta: { id: t.id, fileName: t.fileName, fileSize: t.fileSize, senderId: t.senderId, senderName: t.senderName } });
-              // create local record
+            let rec = receiversRef.current.get(t.id);
+            if (!rec) {
+              // Chunks stored before a reload are not fetched again
+              const stored = await storedChunkIndices(currentUser.id, t.id).catch(() => [] as number[]);
+              rec = { total: t.totalChunks, downloaded: new Set(stored), unsaved: new Map(), assembled: false, meta: { id: t.id, fileName: t.fileName, fileSize: t.fileSize, senderId: t.senderId, senderName: t.senderName } };
+              receiversRef.current.set(t.id, rec);
+              // create (or refresh) the local record; a download URL from before a reload is dead
               const transfer: FileTransfer = {
                 id: t.id,
                 fileName: t.fileName,
@@ -777,77 +1925,159 @@ export const AppProvider = ({ children }: { children: ReactNode }) => {
                 senderId: t.senderId,
                 senderName: t.senderName,
                 receiverId: currentUser.id,
-                progress: 0,
+                progress: Math.floor((rec.downloaded.size / t.totalChunks) * 100),
                 status: 'transferring',
-                timestamp: Date.now(),
+                timestamp: storage.getFileTransfers().find(x => x.id === t.id)?.timestamp ?? Date.now(),
+                downloadUrl: undefined,
                 totalChunks: t.totalChunks,
+                roomId: t.roomId,
+                keyVersion: t.keyVersion,
+                signature: t.signature,
               };
+              const senderKey = signingKeyFor(t.senderId);
+              transfer.signatureValid = !!(t.signature && senderKey && await verifyBytes(senderKey, signedManifestBytes(transfer), t.signature));
               storage.addFileTransfer(transfer);
               setFileTransfers(storage.getFileTransfers());
             }
-            // Attempt to fetch up to 5 available chunks not yet downloaded
-            const rec = receiversRef.current.get(t.id)!;
-            const need = t.availableChunks.filter((idx: number) => !rec.downloaded.has(idx)).slice(0, 5);
-            for (const index of need) {
-              try {
-                const chunkRes = await fetch('/api/ws', {
-                  method: 'POST',
-                  headers: { 'Content-Type': 'application/json' },
-                  body: JSON.stringify({ type: 'download_file_chunk', payload: { userId: currentUser.id, transferId: t.id, index } })
-                });
-                if (!chunkRes.ok) continue;
-                const chunkData = await chunkRes.json();
-                if (chunkData.success) {
-                  let decrypted: Uint8Array;
-                  if (chunkData.nonce) {
-                    if (!roomKey) continue; // wait until we have a key to decrypt
-                    decrypted = await aesDecryptBytes(roomKey, chunkData.data, chunkData.nonce);
-                  } else {
-                    // insecure testing fallback (plaintext base64)
-                    decrypted = base64ToBytes(chunkData.data);
-                  }
-                  rec.buffers[index] = decrypted;
-                  rec.downloaded.add(index);
-                  // update progress
-                  const prog = Math.floor((rec.downloaded.size / rec.total) * 100);
-                  storage.updateFileTransfer(t.id, { progress: prog, status: prog >= 100 ? 'completed' : 'transferring' });
-                  setFileTransfers(storage.getFileTransfers());
-                  // If complete, assemble Blob and set downloadUrl
-                  if (rec.downloaded.size === rec.total) {
-                    const parts: BlobPart[] = [];
-                    for (let i = 0; i < rec.total; i++) {
-                      const b = rec.buffers[i];
-                      if (!b) { break; }
-                      parts.push(b);
-                    }
-                    const blob = new Blob(parts, { type: 'application/octet-stream' });
-                    const url = URL.createObjectURL(blob);
-                    storage.updateFileTransfer(t.id, { downloadUrl: url, status: 'completed', progress: 100 });
-                    setFileTransfers(storage.getFileTransfers());
-                  }
-                }
-              } catch (e) {
-                console.error('Download chunk error', e);
-              }
+            // Fetch the available chunks we lack; a run in progress picks up new ones on a later tick
+            const need = t.availableChunks.filter((idx: number) => !rec.downloaded.has(idx));
+            if (activeDownloadsRef.current.has(t.id)) continue;
+            if (need.length === 0) {
+              // Complete already before a reload: assemble from storage
+              await assembleIfComplete(t.id, rec);
+              continue;
             }
+            activeDownloadsRef.current.add(t.id);
+            downloadChunks(t, rec, need, () => stop || receiversRef.current.get(t.id) !== rec)
+              .then(() => assembleIfComplete(t.id, rec))
+              .catch(e => console.error('Download chunk error', e))
+              .finally(() => activeDownloadsRef.current.delete(t.id));
           }
+          incomplete = Array.from(receiversRef.current.values()).some(rec => !rec.assembled);
         }
       } catch (e) {
         // ignore transient errors
       } finally {
-        setTimeout(tick, 2000);
+        if (!stop) setTimeout(tick, incomplete ? 1000 : 2000);
       }
     };
     tick();
     return () => { stop = true; };
-  }, [currentUser, roomKey]);
+  }, [currentUser, roomKeys, signingKeys]);
+
+  // Our uploads die with the page that ran them: after a reload they wait to be resumed
+  useEffect(() => {
+    if (!currentUser) return;
+    const interrupted = storage.getFileTransfers()
+      .filter(t => t.senderId === currentUser.id && (t.status === 'pending' || t.status === 'transferring'));
+    if (interrupted.length === 0) return;
+    interrupted.forEach(t => storage.updateFileTransfer(t.id, { status: 'paused' }));
+    setFileTransfers(storage.getFileTransfers());
+  }, [currentUser?.id]);
+
+  // Progress, throughput and ETA of a running transfer; published at most every
+  // TRANSFER_STATS_INTERVAL_MS, since a wide window finishes many chunks a second
+  const trackTransfer = (id: string, fileSize: number) => {
+    const meter = createRateMeter();
+    let publishedAt = 0;
+    return {
+      add(bytes: number, doneFraction: number) {
+        meter.add(bytes);
+        const now = Date.now();
+        if (now - publishedAt < TRANSFER_STATS_INTERVAL_MS && doneFraction < 1) return;
+        publishedAt = now;
+        const bytesPerSecond = meter.bytesPerSecond();
+        const remaining = fileSize * (1 - doneFraction);
+        storage.updateFileTransfer(id, { status: 'transferring', progress: Math.floor(doneFraction * 100) });
+        setFileTransfers(storage.getFileTransfers());
+        setTransferStats(prev => ({
+          ...prev,
+          [id]: { bytesPerSecond, etaSeconds: bytesPerSecond > 0 ? remaining / bytesPerSecond : null },
+        }));
+      },
+      bytesPerSecond: () => meter.bytesPerSecond(),
+      finish() {
+        setTransferStats(prev => {
+          const { [id]: _, ...rest } = prev;
+          return rest;
+        });
+      },
+    };
+  };
+
+  const initTransferPayload = (tx: FileTransfer): ActionPayload<'init_file_transfer'> => ({
+    id: tx.id,
+    fileName: tx.fileName,
+    fileSize: tx.fileSize,
+    totalChunks: tx.totalChunks ?? 1,
+    recipients: tx.recipients,
+    roomId: tx.roomId,
+    keyVersion: tx.keyVersion,
+    signature: tx.signature,
+  });
+
+  // Encrypt and upload the chunks of `file` not in `skip` through the chunk
+  // pipeline; false once the server refuses one (or keeps pushing back)
+  const uploadChunks = async (tx: FileTransfer, file: File, key: CryptoKey | undefined, skip: Set<number>) => {
+    const totalChunks = tx.totalChunks ?? 1;
+    const chunkSize = tx.chunkSize ?? MIN_CHUNK_SIZE;
+    const tracker = trackTransfer(tx.id, tx.fileSize);
+    let uploaded = skip.size;
+    const task = async (i: number): Promise<ChunkOutcome> => {
+      const start = i * chunkSize;
+      const end = Math.min(file.size, start + chunkSize);
+      const slice = file.slice(start, end);
+      const arrayBuf = new Uint8Array(await slice.arrayBuffer());
+      let ct: Uint8Array = arrayBuf;
+      let nonceB64 = '';
+      if (key) {
+        const enc = await aesEncryptRaw(key, arrayBuf, tx.signature ? chunkAad(tx.id, i) : undefined);
+        ct = enc.ct;
+        nonceB64 = bytesToBase64(enc.nonce);
+      } // else: insecure testing fallback (plaintext)
+      const upload = serverSupports('binary-chunks')
+        ? await uploadChunkBytes(tx.id, i, totalChunks, ct, nonceB64)
+        : await callAction('upload_chunk', { transferId: tx.id, index: i, totalChunks, data: bytesToBase64(ct), nonce: nonceB64 });
+      if (!upload.ok) return isTransientFailure(upload.status) ? 'retry' : 'fail';
+      tracker.add(end - start, ++uploaded / totalChunks);
+      return 'done';
+    };
+    const pending = Array.from({ length: totalChunks }, (_, i) => i).filter(i => !skip.has(i));
+    try {
+      const done = await runPipeline(pending, task, { maxWindow: transferConcurrency() });
+      if (done && tracker.bytesPerSecond() > 0) lastUploadRateRef.current = tracker.bytesPerSecond();
+      return done;
+    } finally {
+      tracker.finish();
+    }
+  };
+
+  // Upload (the rest of) a transfer, then post a chat message referencing the file.
+  // A lost connection pauses it; a refused chunk fails it (both can be resumed).
+  const runUpload = async (tx: FileTransfer, file: File, key: CryptoKey | undefined, skip: Set<number>) => {
+    let status: FileTransfer['status'];
+    try {
+      status = await uploadChunks(tx, file, key, skip) ? 'completed' : 'failed';
+    } catch (e) {
+      console.warn('Upload interrupted:', e);
+      status = 'paused';
+    }
+    storage.updateFileTransfer(tx.id, status === 'completed' ? { status, progress: 100 } : { status });
+    setFileTransfers(storage.getFileTransfers());
+    if (status !== 'completed') return;
+    const meta = { transferId: tx.id, fileName: file.name, mime: file.type };
+    try {
+      sendMessage(JSON.stringify(meta), tx.roomId);
+    } catch {}
+  };
 
   // Send files (chunked, encrypted) optionally scoped to a room
   const sendFiles = async (files: FileList | File[], roomId?: string): Promise<string[]> => {
     const ids: string[] = [];
     if (!currentUser) return ids;
     const allowInsecure = typeof window !== 'undefined' && localStorage.getItem('lanhub_allow_insecure') === 'true';
-    if (!roomKey && !allowInsecure) {
+    const entry = keyForRoom(roomId);
+    if (!entry && !allowInsecure) {
       console.warn('E2E key unavailable. Falling back to plaintext file transfer for now. To enable encryption, serve over HTTPS or set a passphrase (lanhub_room_passphrase).');
       // continue with plaintext fallback
     }
@@ -860,10 +2090,11 @@ export const AppProvider = ({ children }: { children: ReactNode }) => {
         recipients = room.isPublic ? undefined : room.participants;
       }
     }
-    for (const file of Array.from(files as any)) {
+    for (const file of Array.from(files as ArrayLike<File>)) {
       const id = `${Date.now()}-${Math.random().toString(36).substr(2, 9)}`;
       ids.push(id);
-      const chunkSize = 64 * 1024; // 64 KiB to stay well under body limits
+      // Bigger chunks on a fast link; resuming reuses this size (indices are in the manifest)
+      const chunkSize = pickChunkSize(file.size, lastUploadRateRef.current);
       const totalChunks = Math.max(1, Math.ceil(file.size / chunkSize));
       // Record locally
       const tx: FileTransfer = {
@@ -877,138 +2108,110 @@ export const AppProvider = ({ children }: { children: ReactNode }) => {
         status: 'pending',
         timestamp: Date.now(),
         totalChunks,
+        roomId,
+        keyVersion: entry?.version,
+        fileLastModified: file.lastModified,
+        chunkSize,
       };
+      // Unsigned transfers skip chunk AAD, so receivers still decrypt if the server drops signatures
+      if (userKeyPair?.signingPrivateJwk && serverSupports('signatures')) {
+        try {
+          tx.signature = await signBytes(userKeyPair.signingPrivateJwk, signedManifestBytes(tx));
+        } catch (e) {
+          console.warn('Failed to sign file manifest:', e);
+        }
+      }
       storage.addFileTransfer(tx);
       setFileTransfers(storage.getFileTransfers());
       // Init on server
-      {
-        const initRes = await fetch('/api/ws', {
-          method: 'POST',
-          headers: { 'Content-Type': 'application/json' },
-          body: JSON.stringify({ type: 'init_file_transfer', payload: { id, senderId: currentUser.id, senderName: currentUser.displayName, fileName: file.name, fileSize: file.size, totalChunks, recipients } })
-        });
-        if (!initRes.ok) {
+      try {
+        const init = await callAction('init_file_transfer', initTransferPayload(tx));
+        if (!init.ok) {
           storage.updateFileTransfer(id, { status: 'failed' });
           setFileTransfers(storage.getFileTransfers());
           continue;
         }
-      }
-      // Upload chunks sequentially (could be parallelized)
-      let failed = false;
-      for (let i = 0; i < totalChunks; i++) {
-        const start = i * chunkSize;
-        const end = Math.min(file.size, start + chunkSize);
-        const slice = file.slice(start, end);
-        const arrayBuf = new Uint8Array(await slice.arrayBuffer());
-        let ctB64: string;
-        let nonceB64: string;
-        if (roomKey) {
-          const enc = await aesEncryptBytes(roomKey, arrayBuf);
-          ctB64 = enc.ctB64; nonceB64 = enc.nonceB64;
-        } else {
-          // insecure testing fallback
-          ctB64 = bytesToBase64(arrayBuf);
-          nonceB64 = '';
-        }
-        const upRes = await fetch('/api/ws', {
-          method: 'POST',
-          headers: { 'Content-Type': 'application/json' },
-          body: JSON.stringify({ type: 'upload_chunk', payload: { transferId: id, index: i, totalChunks, data: ctB64, nonce: nonceB64 } })
-        });
-        if (!upRes.ok) {
-          failed = true;
-          storage.updateFileTransfer(id, { status: 'failed' });
-          setFileTransfers(storage.getFileTransfers());
-          break;
-        }
-        const prog = Math.floor(((i + 1) / totalChunks) * 100);
-        storage.updateFileTransfer(id, { status: 'transferring', progress: prog });
-        setFileTransfers(storage.getFileTransfers());
-      }
-      if (!failed) {
-        storage.updateFileTransfer(id, { status: 'completed', progress: 100 });
+      } catch (e) {
+        console.warn('File transfer paused, server unreachable:', e);
+        storage.updateFileTransfer(id, { status: 'paused' });
         setFileTransfers(storage.getFileTransfers());
-        // Post a chat message referencing the file
-        const meta = { transferId: id, fileName: file.name, mime: file.type };
-        try {
-          sendMessage(JSON.stringify(meta), roomId);
-        } catch {}
+        continue;
       }
+      await runUpload(tx, file, entry?.key, new Set());
     }
+    return ids;
   };
 
-  // Admin operations
-  const kickMember = async (roomId: string, userId: string): Promise<boolean> => {
-    if (!currentUser) return false;
+  const resumeUpload = async (transferId: string, file: File): Promise<string | null> => {
+    if (!currentUser) return 'Not signed in';
+    const tx = storage.getFileTransfers().find(t => t.id === transferId);
+    if (!tx || tx.senderId !== currentUser.id || (tx.status !== 'paused' && tx.status !== 'failed')) {
+      return 'This upload cannot be resumed';
+    }
+    if (file.name !== tx.fileName || file.size !== tx.fileSize
+      || (tx.fileLastModified !== undefined && file.lastModified !== tx.fileLastModified)) {
+      return `Select the same file (${tx.fileName})`;
+    }
+    // Chunks must be sealed with the key epoch named in the signed manifest
+    const entry = tx.keyVersion !== undefined ? keyForRoom(tx.roomId, tx.keyVersion) : undefined;
+    if (tx.keyVersion !== undefined && !entry) return 'The room key for this file is no longer available';
+    storage.updateFileTransfer(tx.id, { status: 'transferring' });
+    setFileTransfers(storage.getFileTransfers());
+    let skip = new Set<number>();
     try {
-      const res = await fetch('/api/ws', {
-        method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({ type: 'update_room', payload: { roomId, byUserId: currentUser.id, removeParticipant: userId } })
-      });
-      const data = await res.json();
-      if (res.ok && Array.isArray(data.rooms)) {
-        setChatRooms(data.rooms);
-        localStorage.setItem('lanhub_chat_rooms', JSON.stringify(data.rooms));
-        return true;
+      // Servers with resumable-files list our own uploads with the chunks they hold
+      const listed = serverSupports('resumable-files') ? await callAction('list_file_transfers', {}) : null;
+      const known = listed?.ok ? listed.data.transfers.find(t => t.id === tx.id) : undefined;
+      if (known) {
+        skip = new Set(known.availableChunks);
+      } else {
+        // Unknown to the server (or it cannot tell): upload everything again under the same id
+        const init = await callAction('init_file_transfer', initTransferPayload(tx));
+        if (!init.ok) {
+          storage.updateFileTransfer(tx.id, { status: 'failed' });
+          setFileTransfers(storage.getFileTransfers());
+          return init.error.error;
+        }
       }
-    } catch (e) { console.warn('kickMember failed', e); }
-    return false;
+    } catch (e) {
+      console.warn('Resume failed, server unreachable:', e);
+      storage.updateFileTransfer(tx.id, { status: 'paused' });
+      setFileTransfers(storage.getFileTransfers());
+      return 'Server unreachable';
+    }
+    await runUpload(tx, file, entry?.key, skip);
+    return null;
   };
 
-  const setRoomAdmin = async (roomId: string, userId: string, make: boolean): Promise<boolean> => {
+  // Admin operations: applied when the server answers; queued (and reported
+  // as done) when it cannot be reached
+  const sendRoomAction = async (item: OutboxItem): Promise<boolean> => {
     if (!currentUser) return false;
+    let result: ActionResult<OutboxAction>;
     try {
-      const res = await fetch('/api/ws', {
-        method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({ type: 'update_room', payload: { roomId, byUserId: currentUser.id, ...(make ? { addAdmin: userId } : { removeAdmin: userId }) } })
-      });
-      const data = await res.json();
-      if (res.ok && Array.isArray(data.rooms)) {
-        setChatRooms(data.rooms);
-        localStorage.setItem('lanhub_chat_rooms', JSON.stringify(data.rooms));
-        return true;
-      }
-    } catch (e) { console.warn('setRoomAdmin failed', e); }
-    return false;
+      result = await callAction(item.type, item.payload);
+    } catch (e) {
+      console.warn(`${item.type} queued until the server is reachable:`, e);
+      enqueueAction(item);
+      return true;
+    }
+    if (!result.ok || !('rooms' in result.data) || !result.data.rooms) return false;
+    applyRooms(result.data.rooms);
+    return true;
   };
 
-  const transferRoomOwner = async (roomId: string, newOwnerId: string): Promise<boolean> => {
-    if (!currentUser) return false;
-    try {
-      const res = await fetch('/api/ws', {
-        method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({ type: 'update_room', payload: { roomId, byUserId: currentUser.id, transferOwnerTo: newOwnerId } })
-      });
-      const data = await res.json();
-      if (res.ok && Array.isArray(data.rooms)) {
-        setChatRooms(data.rooms);
-        localStorage.setItem('lanhub_chat_rooms', JSON.stringify(data.rooms));
-        return true;
-      }
-    } catch (e) { console.warn('transferRoomOwner failed', e); }
-    return false;
-  };
+  const kickMember = (roomId: string, userId: string) =>
+    sendRoomAction({ type: 'update_room', payload: { roomId, removeParticipant: userId } });
 
-  const deleteChatRoom = async (roomId: string): Promise<boolean> => {
-    if (!currentUser) return false;
-    try {
-      const res = await fetch('/api/ws', {
-        method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({ type: 'delete_room', payload: { roomId, byUserId: currentUser.id } })
-      });
-      const data = await res.json();
-      if (res.ok && Array.isArray(data.rooms)) {
-        setChatRooms(data.rooms);
-        localStorage.setItem('lanhub_chat_rooms', JSON.stringify(data.rooms));
-        return true;
-      }
-    } catch (e) { console.warn('deleteChatRoom failed', e); }
-    return false;
-  };
+  const leaveRoom = (roomId: string) => sendRoomAction({ type: 'leave_room', payload: { roomId } });
+
+  const setRoomAdmin = (roomId: string, userId: string, make: boolean) =>
+    sendRoomAction({ type: 'update_room', payload: { roomId, ...(make ? { addAdmin: userId } : { removeAdmin: userId }) } });
+
+  const transferRoomOwner = (roomId: string, newOwnerId: string) =>
+    sendRoomAction({ type: 'update_room', payload: { roomId, transferOwnerTo: newOwnerId } });
+
+  const deleteChatRoom = (roomId: string) => sendRoomAction({ type: 'delete_room', payload: { roomId } });
 
   return (
     <AppContext.Provider
@@ -1016,7 +2219,7 @@ export const AppProvider = ({ children }: { children: ReactNode }) => {
         currentUser,
         users,
         devices,
-        messages,
+        messages: timelineMessages,
         fileTransfers,
         activityLogs,
         chatRooms,
@@ -1024,19 +2227,52 @@ export const AppProvider = ({ children }: { children: ReactNode }) => {
         register,
         logout,
         sendMessage,
+        reactions,
+        toggleReaction,
+        editMessage,
+        deleteMessage,
+        canModifyMessage,
+        outboxEntryFor,
+        retryOutbox,
+        discardOutbox,
+        loadOlderMessages,
+        hasMoreHistory,
+        markRead,
+        unreadCount,
+        receiptsFor,
+        setTyping,
+        typingUsers,
+        mentionCandidates,
+        unreadMentions,
+        hasUnreadMention,
+        searchMessages,
+        roomName,
         addFileTransfer,
         updateFileTransfer,
         removeFileTransfer,
         createChatRoom,
-        generateInviteCode,
+        openDirectMessage,
+        createInviteCode,
+        revokeInvites,
         joinRoomWithCode,
         simulateDeviceDiscovery,
         sendFiles,
+        resumeUpload,
+        transferStats,
         // admin ops
         kickMember,
+        leaveRoom,
         setRoomAdmin,
         transferRoomOwner,
         deleteChatRoom,
+        transport,
+        getTrustState,
+        getSafetyNumber,
+        verifyUser,
+        unverifyUser,
+        keyChangedUserIds,
+        serverInfo,
+        protocolError,
       }}
     >
       {children}
@@ -0,0 +1,94 @@
+import { sqliteTable, text, integer, blob, primaryKey, index } from 'drizzle-orm/sqlite-core';
+
+// Server persistence schema. Message and key-envelope bodies are stored as
+// opaque JSON: ciphertext and nonces are never inspected or re-encoded. File
+// chunks are raw bytes.
+
+export const messages = sqliteTable('messages', {
+  id: text('id').primaryKey(),
+  seq: integer('seq').notNull().unique(),
+  roomId: text('room_id'),
+  timestamp: integer('timestamp').notNull(),
+  data: text('data', { mode: 'json' }).notNull(),
+}, (t) => [index('messages_room_seq_idx').on(t.roomId, t.seq)]);
+
+export const rooms = sqliteTable('rooms', {
+  id: text('id').primaryKey(),
+  name: text('name').notNull(),
+  participants: text('participants', { mode: 'json' }).$type<string[]>().notNull(),
+  createdBy: text('created_by').notNull(),
+  createdAt: integer('created_at').notNull(),
+  isPublic: integer('is_public', { mode: 'boolean' }).notNull(),
+  admins: text('admins', { mode: 'json' }).$type<string[]>(),
+  keyVersion: integer('key_version'),
+  rekeyNeeded: integer('rekey_needed', { mode: 'boolean' }).notNull().default(false),
+  isDirect: integer('is_direct', { mode: 'boolean' }).notNull().default(false),
+});
+
+export const fileTransfers = sqliteTable('file_transfers', {
+  id: text('id').primaryKey(),
+  senderId: text('sender_id').notNull(),
+  senderName: text('sender_name').notNull(),
+  fileName: text('file_name').notNull(),
+  fileSize: integer('file_size').notNull(),
+  totalChunks: integer('total_chunks').notNull(),
+  recipients: text('recipients', { mode: 'json' }).$type<string[]>(),
+  roomId: text('room_id'),
+  keyVersion: integer('key_version'),
+  signature: text('signature'),
+  createdAt: integer('created_at').notNull(),
+  completed: integer('completed', { mode: 'boolean' }).notNull(),
+});
+
+export const fileChunks = sqliteTable('file_chunks', {
+  transferId: text('transfer_id').notNull().references(() => fileTransfers.id, { onDelete: 'cascade' }),
+  index: integer('idx').notNull(),
+  // Raw ciphertext; rows written before 0007 hold it as base64 text
+  data: blob('data', { mode: 'buffer' }).notNull(),
+  nonce: text('nonce').notNull(),
+}, (t) => [primaryKey({ columns: [t.transferId, t.index] })]);
+
+export const keyUpdates = sqliteTable('key_updates', {
+  id: integer('id').primaryKey({ autoIncrement: true }),
+  targetUserId: text('target_user_id').notNull(),
+  data: text('data', { mode: 'json' }).notNull(),
+}, (t) => [index('key_updates_target_idx').on(t.targetUserId)]);
+
+export const identityKeys = sqliteTable('identity_keys', {
+  userId: text('user_id').primaryKey(),
+  publicKeyJwk: text('public_key_jwk', { mode: 'json' }).$type<JsonWebKey>().notNull(),
+  signingKeyJwk: text('signing_key_jwk', { mode: 'json' }).$type<JsonWebKey>(),
+});
+
+export const accounts = sqliteTable('accounts', {
+  id: text('id').primaryKey(),
+  username: text('username').notNull().unique(),
+  displayName: text('display_name').notNull(),
+  passwordHash: text('password_hash').notNull(),
+  isAdmin: integer('is_admin', { mode: 'boolean' }).notNull().default(false),
+  createdAt: integer('created_at').notNull(),
+});
+
+export const sessions = sqliteTable('sessions', {
+  tokenHash: text('token_hash').primaryKey(),
+  userId: text('user_id').notNull().references(() => accounts.id, { onDelete: 'cascade' }),
+  createdAt: integer('created_at').notNull(),
+  expiresAt: integer('expires_at').notNull(),
+}, (t) => [index('sessions_user_idx').on(t.userId)]);
+
+// Per-user receipt positions: delivered up to a seq (any room), read up to a
+// seq per room id ('global' for messages without a room)
+export const receipts = sqliteTable('receipts', {
+  userId: text('user_id').primaryKey().references(() => accounts.id, { onDelete: 'cascade' }),
+  deliveredSeq: integer('delivered_seq').notNull().default(0),
+  read: text('read', { mode: 'json' }).$type<Record<string, number>>().notNull(),
+});
+
+// Invites to private rooms, by SHA-256 of the token handed out
+export const roomInvites = sqliteTable('room_invites', {
+  tokenHash: text('token_hash').primaryKey(),
+  roomId: text('room_id').notNull().references(() => rooms.id, { onDelete: 'cascade' }),
+  createdBy: text('created_by').notNull(),
+  createdAt: integer('created_at').notNull(),
+  expiresAt: integer('expires_at').notNull(),
+}, (t) => [index('room_invites_room_idx').on(t.roomId)]);
@@ -0,0 +1,78 @@
+/*
+  Typed client for the /api/ws actions defined in src/lib/protocol.ts.
+  Success bodies are checked against the action's response schema, so callers
+  get either typed data or an ApiError; network failures still throw.
+*/
+import {
+  ActionPayload,
+  ActionType,
+  ApiError,
+  apiErrorSchema,
+  ApiResponse,
+  CHUNK_NONCE_HEADER,
+  chunkPath,
+  responseSchemas,
+  TOTAL_CHUNKS_HEADER,
+} from '@/lib/protocol';
+
+export type ActionResult<T extends ActionType> =
+  | { ok: true; data: ApiResponse<T> }
+  | { ok: false; status: number; error: ApiError };
+
+export async function callAction<T extends ActionType>(type: T, payload: ActionPayload<T>): Promise<ActionResult<T>> {
+  const res = await fetch('/api/ws', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ type, payload }),
+  });
+  const body = await res.json().catch(() => null);
+  return toActionResult(type, res.status, body);
+}
+
+// Check a reply (an HTTP response, or a socket reply frame) against the action's schemas
+export function toActionResult<T extends ActionType>(type: T, status: number, body: unknown): ActionResult<T> {
+  if (status < 200 || status >= 300) {
+    const error = apiErrorSchema.safeParse(body);
+    return { ok: false, status, error: error.success ? error.data : { error: `HTTP ${status}` } };
+  }
+  const parsed = responseSchemas[type].safeParse(body);
+  if (!parsed.success) {
+    console.warn(`Malformed ${type} response:`, parsed.error.issues);
+    return { ok: false, status, error: { error: `Malformed ${type} response` } };
+  }
+  return { ok: true, data: parsed.data as ApiResponse<T> };
+}
+
+// Binary chunk transport (capability binary-chunks). Uploads answer like upload_chunk.
+export async function uploadChunkBytes(
+  transferId: string,
+  index: number,
+  totalChunks: number,
+  data: Uint8Array,
+  nonce: string,
+): Promise<ActionResult<'upload_chunk'>> {
+  const res = await fetch(chunkPath(transferId, index), {
+    method: 'PUT',
+    headers: {
+      'Content-Type': 'application/octet-stream',
+      [CHUNK_NONCE_HEADER]: nonce,
+      [TOTAL_CHUNKS_HEADER]: String(totalChunks),
+    },
+    body: data as BufferSource,
+  });
+  const body = await res.json().catch(() => null);
+  return toActionResult('upload_chunk', res.status, body);
+}
+
+export type ChunkBytesResult =
+  | { ok: true; data: Uint8Array; nonce: string }
+  | { ok: false; status: number; error: ApiError };
+
+export async function downloadChunkBytes(transferId: string, index: number): Promise<ChunkBytesResult> {
+  const res = await fetch(chunkPath(transferId, index));
+  if (!res.ok) {
+    const error = apiErrorSchema.safeParse(await res.json().catch(() => null));
+    return { ok: false, status: res.status, error: error.success ? error.data : { error: `HTTP ${res.status}` } };
+  }
+  return { ok: true, data: new Uint8Array(await res.arrayBuffer()), nonce: res.headers.get(CHUNK_NONCE_HEADER) ?? '' };
+}
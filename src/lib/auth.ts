@@ -0,0 +1,145 @@
+/*
+  Password accounts and login sessions for the API routes.
+  - Passwords are stored as salted scrypt hashes (better-auth/crypto).
+  - A session is a random token in an HttpOnly cookie. Only its SHA-256 is
+    kept server-side, so a copied database cannot be replayed as cookies.
+  - Admins are the usernames in LANHUB_ADMINS (comma-separated). Without it,
+    the first account created on the server becomes the admin.
+*/
+import { createHash, randomBytes } from 'node:crypto';
+import { NextRequest, NextResponse } from 'next/server';
+import { hashPassword, verifyPassword } from 'better-auth/crypto';
+import { getServerState, ServerAccount } from '@/lib/server-state';
+import { getPersistence, isUniqueViolation } from '@/lib/persistence';
+import { publish } from '@/lib/realtime';
+
+export const SESSION_COOKIE = 'lanhub_session';
+const SESSION_TTL_MS = 30 * 24 * 60 * 60 * 1000;
+const USERNAME_PATTERN = /^[a-zA-Z0-9_.-]{3,32}$/;
+export const MIN_PASSWORD_LENGTH = 8;
+const MAX_DISPLAY_NAME_LENGTH = 64;
+
+const state = getServerState();
+
+// What clients may see of an account (never the hash)
+export type PublicAccount = Pick<ServerAccount, 'id' | 'username' | 'displayName' | 'isAdmin'>;
+
+export const toPublicAccount = (a: ServerAccount): PublicAccount => ({
+  id: a.id,
+  username: a.username,
+  displayName: a.displayName,
+  isAdmin: a.isAdmin,
+});
+
+// Secret tokens (sessions, room invites) are stored only as their SHA-256
+export const hashToken = (token: string) => createHash('sha256').update(token).digest('hex');
+
+const configuredAdmins = () =>
+  (process.env.LANHUB_ADMINS || '').split(',').map(s => s.trim().toLowerCase()).filter(Boolean);
+
+// Usernames are unique regardless of case
+export const findAccountByUsername = (username: string): ServerAccount | undefined => {
+  const key = username.toLowerCase();
+  for (const a of state.accounts.values()) {
+    if (a.username.toLowerCase() === key) return a;
+  }
+  return undefined;
+};
+
+// Error message for invalid registration input, or null when acceptable
+export function validateRegistration(username: unknown, password: unknown, displayName: unknown): string | null {
+  if (typeof username !== 'string' || !USERNAME_PATTERN.test(username)) {
+    return 'Username must be 3-32 characters: letters, digits, dot, dash or underscore';
+  }
+  if (typeof password !== 'string' || password.length < MIN_PASSWORD_LENGTH) {
+    return `Password must be at least ${MIN_PASSWORD_LENGTH} characters`;
+  }
+  if (typeof displayName !== 'string' || !displayName.trim() || displayName.trim().length > MAX_DISPLAY_NAME_LENGTH) {
+    return `Display name must be 1-${MAX_DISPLAY_NAME_LENGTH} characters`;
+  }
+  return null;
+}
+
+// The new account, or null when the username is taken
+export async function createAccount(username: string, password: string, displayName: string): Promise<ServerAccount | null> {
+  const passwordHash = await hashPassword(password);
+  // Checked again after the hash: a concurrent registration may have taken it
+  if (findAccountByUsername(username)) return null;
+  const admins = configuredAdmins();
+  const account: ServerAccount = {
+    id: crypto.randomUUID(),
+    username,
+    displayName: displayName.trim(),
+    passwordHash,
+    isAdmin: admins.length > 0 ? admins.includes(username.toLowerCase()) : state.accounts.size === 0,
+    createdAt: Date.now(),
+  };
+  // Reserved in memory before the write; released if the database refuses it
+  state.accounts.set(account.id, account);
+  try {
+    await getPersistence().saveAccount(account);
+  } catch (e) {
+    state.accounts.delete(account.id);
+    if (isUniqueViolation(e)) return null;
+    throw e;
+  }
+  return account;
+}
+
+// Hash of a throwaway password, checked for unknown usernames so the response
+// time does not reveal which accounts exist
+let decoyHash: Promise<string> | null = null;
+
+export async function checkPassword(username: string, password: string): Promise<ServerAccount | null> {
+  const account = findAccountByUsername(username);
+  if (!account) {
+    decoyHash ??= hashPassword(randomBytes(16).toString('hex'));
+    await verifyPassword({ hash: await decoyHash, password });
+    return null;
+  }
+  return (await verifyPassword({ hash: account.passwordHash, password })) ? account : null;
+}
+
+// Open a session for userId and set its cookie on the response
+export async function startSession(req: NextRequest, res: NextResponse, userId: string) {
+  const token = randomBytes(32).toString('base64url');
+  const now = Date.now();
+  const session = { tokenHash: hashToken(token), userId, createdAt: now, expiresAt: now + SESSION_TTL_MS };
+  state.sessions.set(session.tokenHash, session);
+  await getPersistence().saveSession(session);
+  res.cookies.set(SESSION_COOKIE, token, {
+    httpOnly: true,
+    sameSite: 'lax',
+    secure: req.nextUrl.protocol === 'https:',
+    path: '/',
+    expires: new Date(session.expiresAt),
+  });
+}
+
+// Revoke the request's session (if any) and clear the cookie
+export async function endSession(req: NextRequest, res: NextResponse) {
+  const token = req.cookies.get(SESSION_COOKIE)?.value;
+  if (token) {
+    const tokenHash = hashToken(token);
+    const session = state.sessions.get(tokenHash);
+    state.sessions.delete(tokenHash);
+    await getPersistence().deleteSession(tokenHash);
+    if (session) publish({ type: 'session_ended', payload: {}, audience: [session.userId] });
+  }
+  res.cookies.delete(SESSION_COOKIE);
+}
+
+// Account behind the request's session cookie, or null when signed out/expired
+export function getSessionAccount(req: NextRequest): ServerAccount | null {
+  const token = req.cookies.get(SESSION_COOKIE)?.value;
+  if (!token) return null;
+  const tokenHash = hashToken(token);
+  const session = state.sessions.get(tokenHash);
+  if (!session) return null;
+  if (session.expiresAt <= Date.now()) {
+    state.sessions.delete(tokenHash);
+    getPersistence().deleteSession(tokenHash).catch(console.error);
+    return null;
+  }
+  return state.accounts.get(session.userId) ?? null;
+}
@@ -0,0 +1,66 @@
+/*
+  Authorization rules for the /api/ws actions and push streams, in one place.
+  - The caller is always the session account; no session => 401.
+  - Global (messages without roomId): everyone reads, only app admins post.
+  - Public rooms are open: any account may read and post. Private rooms:
+    participants only; they are joined with an invite token issued by the
+    owner or a room admin (or added by them), and are left out of the room
+    lists sent to everyone else.
+  - Room settings and key rotation: owner or room admins. Deleting: owner.
+  - Key updates: room keys from the owner or room admins (app admins for
+    global), sender chains only from their own sender.
+    Direct message rooms are private to their two members and never change.
+  - Message edits and deletes: the sender, or an admin of the message's room
+    (app admins for global).
+  - File transfers: the sender, plus recipients (all accounts when there are
+    none) who can also read the transfer's room. Only the sender uploads.
+  Every rule violation answers 403 via forbidden().
+*/
+import { getServerState, ServerAccount, ServerFileTransfer, ServerRoom } from '@/lib/server-state';
+
+const state = getServerState();
+
+export const unauthorized = () => Response.json({ error: 'Unauthorized' }, { status: 401 });
+
+export const forbidden = () => Response.json({ error: 'Forbidden' }, { status: 403 });
+
+export const isRoomOwner = (room: ServerRoom, userId: string) => room.createdBy === userId;
+
+export const isRoomAdmin = (room: ServerRoom, userId: string) =>
+  isRoomOwner(room, userId) || (Array.isArray(room.admins) && room.admins.includes(userId));
+
+// Unknown rooms are readable by nobody
+export function canReadRoom(roomId: string | undefined, userId: string): boolean {
+  if (!roomId) return true;
+  const room = state.rooms.get(roomId);
+  if (!room) return false;
+  return room.isPublic || room.participants.includes(userId);
+}
+
+export function canPostToRoom(roomId: string | undefined, account: ServerAccount): boolean {
+  if (!roomId) return account.isAdmin;
+  return canReadRoom(roomId, account.id);
+}
+
+export const canReadMessage = (message: { roomId?: string }, userId: string) => canReadRoom(message.roomId, userId);
+
+// Push audience for a message: private room participants, everyone otherwise
+export function messageAudience(message: { roomId?: string }): string[] | undefined {
+  const room = message.roomId ? state.rooms.get(message.roomId) : undefined;
+  return room && !room.isPublic ? [...room.participants] : undefined;
+}
+
+export function canModifyMessage(message: { senderId: string; roomId?: string }, account: ServerAccount): boolean {
+  if (message.senderId === account.id) return true;
+  if (!message.roomId) return account.isAdmin;
+  const room = state.rooms.get(message.roomId);
+  return !!room && isRoomAdmin(room, account.id);
+}
+
+export function canAccessTransfer(transfer: ServerFileTransfer, userId: string): boolean {
+  if (transfer.senderId === userId) return true;
+  if (Array.isArray(transfer.recipients) && transfer.recipients.length > 0 && !transfer.recipients.includes(userId)) {
+    return false;
+  }
+  return canReadRoom(transfer.roomId, userId);
+}
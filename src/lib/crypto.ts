@@ -1,12 +1,48 @@
 /*
   Lightweight crypto utilities for E2E in the browser using WebCrypto.
-  - Room key: AES-GCM 256
-  - User keys: ECDH P-256 for key exchange
+  - Room keys: AES-GCM 256, one per ChatRoom.id ('global' for announcements)
+  - User keys: ECDH P-256 for key exchange, ECDSA P-256 (SHA-256) for signatures
   - Key derivation: HKDF(SHA-256)
+  - Sender keys: per-member HMAC-SHA256 chain ratcheted once per message (forward secrecy)
+  - Direct messages: static ECDH between the two members' identity keys
+  - Identity: SHA-256 fingerprints and pairwise safety numbers of ECDH public keys
 */
+import { SAFETY_WORDS } from '@/lib/safety-words';
+import { accountStorage } from '@/lib/local-storage';
 
 export type JWK = JsonWebKey;
 
+// Key id used for messages/files without a roomId (global announcements)
+export const GLOBAL_ROOM_ID = 'global';
+
+// Room key wrapped for one recipient; roomId/keyVersion are bound as AAD.
+// `sig` is the distributing owner/admin's ECDSA signature (unsigned ones are refused).
+export interface RoomKeyEnvelope {
+  epk: JWK;
+  saltB64: string;
+  nonceB64: string;
+  ctB64: string;
+  roomId: string;
+  keyVersion: number;
+  senderId?: string;
+  sig?: string;
+}
+
+// One member's sender chain wrapped for one recipient (Signal-style sender keys).
+// Routing fields are bound as AAD; `sig` is the sender's ECDSA signature.
+export interface SenderKeyEnvelope {
+  kind: 'sender_key';
+  epk: JWK;
+  saltB64: string;
+  nonceB64: string;
+  ctB64: string;
+  roomId: string;
+  senderId: string;
+  chainId: string;
+  iteration: number; // chain key in ctB64 produces message index `iteration` next
+  sig?: string;
+}
+
 export const hasSubtle = (): boolean => typeof window !== 'undefined' && !!(window.crypto && window.crypto.subtle) && !!(window.isSecureContext);
 
 // Derive an AES-GCM room key from a shared passphrase (offline-friendly)
@@ -28,12 +64,16 @@ export async function deriveRoomKeyFromPassphrase(passphrase: string, salt: stri
   );
 }
 
-// Base64 helpers for binary data
+// Base64 helpers for binary data (encoded in slices: one string append per
+// byte is slow on megabyte chunks, one call per buffer overflows the stack)
+const BASE64_SLICE = 0x8000;
+
 export const bytesToBase64 = (bytes: Uint8Array): string => {
-  let binary = "";
-  const len = bytes.byteLength;
-  for (let i = 0; i < len; i++) binary += String.fromCharCode(bytes[i]);
-  return btoa(binary);
+  const parts: string[] = [];
+  for (let i = 0; i < bytes.byteLength; i += BASE64_SLICE) {
+    parts.push(String.fromCharCode(...bytes.subarray(i, i + BASE64_SLICE)));
+  }
+  return btoa(parts.join(""));
 };
 
 export const base64ToBytes = (b64: string): Uint8Array => {
@@ -84,21 +124,29 @@ export async function importAesRaw(raw: Uint8Array): Promise<CryptoKey> {
   return crypto.subtle.importKey("raw", raw, { name: "AES-GCM" }, true, ["encrypt", "decrypt"]);
 }
 
-export async function aesEncryptBytes(key: CryptoKey, data: Uint8Array): Promise<{ nonceB64: string; ctB64: string }>{
+// Raw variants for binary transports (file chunks); the base64 ones wrap them
+export async function aesEncryptRaw(key: CryptoKey, data: Uint8Array, aad?: Uint8Array): Promise<{ nonce: Uint8Array; ct: Uint8Array }>{
   if (!hasSubtle()) throw new Error('WebCrypto SubtleCrypto unavailable');
   const nonce = randomBytes(12);
-  const ct = await crypto.subtle.encrypt({ name: "AES-GCM", iv: nonce }, key, data);
-  return { nonceB64: bytesToBase64(nonce), ctB64: bytesToBase64(new Uint8Array(ct)) };
+  const ct = await crypto.subtle.encrypt({ name: "AES-GCM", iv: nonce, ...(aad ? { additionalData: aad } : {}) }, key, data);
+  return { nonce, ct: new Uint8Array(ct) };
 }
 
-export async function aesDecryptBytes(key: CryptoKey, ctB64: string, nonceB64: string): Promise<Uint8Array> {
+export async function aesDecryptRaw(key: CryptoKey, ct: Uint8Array, nonce: Uint8Array, aad?: Uint8Array): Promise<Uint8Array> {
   if (!hasSubtle()) throw new Error('WebCrypto SubtleCrypto unavailable');
-  const nonce = base64ToBytes(nonceB64);
-  const ct = base64ToBytes(ctB64);
-  const pt = await crypto.subtle.decrypt({ name: "AES-GCM", iv: nonce }, key, ct);
+  const pt = await crypto.subtle.decrypt({ name: "AES-GCM", iv: nonce, ...(aad ? { additionalData: aad } : {}) }, key, ct);
   return new Uint8Array(pt);
 }
 
+export async function aesEncryptBytes(key: CryptoKey, data: Uint8Array, aad?: Uint8Array): Promise<{ nonceB64: string; ctB64: string }>{
+  const { nonce, ct } = await aesEncryptRaw(key, data, aad);
+  return { nonceB64: bytesToBase64(nonce), ctB64: bytesToBase64(ct) };
+}
+
+export async function aesDecryptBytes(key: CryptoKey, ctB64: string, nonceB64: string, aad?: Uint8Array): Promise<Uint8Array> {
+  return aesDecryptRaw(key, base64ToBytes(ctB64), base64ToBytes(nonceB64), aad);
+}
+
 export async function aesEncryptString(key: CryptoKey, text: string): Promise<{ nonceB64: string; ctB64: string }>{
   return aesEncryptBytes(key, utf8Encode(text));
 }
@@ -121,6 +169,69 @@ export async function generateECDH(): Promise<{ publicJwk: JWK; privateJwk: JWK
   return { publicJwk, privateJwk };
 }
 
+// ECDSA P-256 long-term signing keys (authorship of messages and file manifests)
+export async function generateSigningKeyPair(): Promise<{ publicJwk: JWK; privateJwk: JWK }>{
+  if (!hasSubtle()) throw new Error('WebCrypto SubtleCrypto unavailable');
+  const kp = await crypto.subtle.generateKey(
+    { name: "ECDSA", namedCurve: "P-256" },
+    true,
+    ["sign", "verify"]
+  );
+  const publicJwk = await crypto.subtle.exportKey("jwk", kp.publicKey);
+  const privateJwk = await crypto.subtle.exportKey("jwk", kp.privateKey);
+  return { publicJwk, privateJwk };
+}
+
+export async function signBytes(privateJwk: JWK, data: Uint8Array): Promise<string> {
+  if (!hasSubtle()) throw new Error('WebCrypto SubtleCrypto unavailable');
+  const key = await crypto.subtle.importKey("jwk", privateJwk, { name: "ECDSA", namedCurve: "P-256" }, false, ["sign"]);
+  const sig = await crypto.subtle.sign({ name: "ECDSA", hash: "SHA-256" }, key, data as BufferSource);
+  return bytesToBase64(new Uint8Array(sig));
+}
+
+// False (never throws) for malformed keys or signatures
+export async function verifyBytes(publicJwk: JWK, data: Uint8Array, sigB64: string): Promise<boolean> {
+  if (!hasSubtle()) return false;
+  try {
+    const key = await crypto.subtle.importKey("jwk", publicJwk, { name: "ECDSA", namedCurve: "P-256" }, false, ["verify"]);
+    return await crypto.subtle.verify({ name: "ECDSA", hash: "SHA-256" }, key, base64ToBytes(sigB64) as BufferSource, data as BufferSource);
+  } catch {
+    return false;
+  }
+}
+
+// What a message signature covers: the wire form (ciphertext + nonce when
+// encrypted, so signatures reveal nothing about the plaintext) and all
+// client-chosen metadata. Server-assigned seq/timestamp are excluded.
+export const signedMessageBytes = (m: {
+  id: string; senderId: string; senderName: string; roomId?: string; type: string;
+  content: string; enc?: boolean; nonce?: string; keyVersion?: number;
+  chainId?: string; chainIndex?: number;
+  bodyFormat?: string; replyTo?: string; threadRootId?: string; targetId?: string;
+}) => utf8Encode(JSON.stringify([
+  'lanhub-msg-v1', m.id, m.senderId, m.senderName, m.roomId ?? null, m.type,
+  m.content, !!m.enc, m.nonce ?? null, m.keyVersion ?? null,
+  // Sender-key position (appended only when present; room-key messages are unchanged)
+  ...(m.chainId !== undefined ? [m.chainId, m.chainIndex ?? null] : []),
+  // Same for the body format and plaintext thread fields
+  ...(m.bodyFormat !== undefined ? ['body', m.bodyFormat] : []),
+  ...(m.replyTo !== undefined || m.threadRootId !== undefined ? ['thread', m.replyTo ?? null, m.threadRootId ?? null] : []),
+  ...(m.targetId !== undefined ? ['target', m.targetId] : []),
+]));
+
+// What a file manifest signature covers; chunks are bound to it via chunkAad
+export const signedManifestBytes = (t: {
+  id: string; senderId: string; senderName: string; fileName: string; fileSize: number;
+  totalChunks?: number; roomId?: string; keyVersion?: number;
+}) => utf8Encode(JSON.stringify([
+  'lanhub-manifest-v1', t.id, t.senderId, t.senderName, t.fileName, t.fileSize,
+  t.totalChunks ?? null, t.roomId ?? null, t.keyVersion ?? null,
+]));
+
+// AES-GCM associated data for chunks of signed transfers: a chunk only
+// decrypts at its own index of its own transfer (no reordering/splicing)
+export const chunkAad = (transferId: string, index: number) => utf8Encode(`lanhub-chunk:${transferId}:${index}`);
+
 async function importECDHPublic(jwk: JWK): Promise<CryptoKey> {
   if (!hasSubtle()) throw new Error('WebCrypto SubtleCrypto unavailable');
   return crypto.subtle.importKey(
@@ -163,42 +274,286 @@ async function deriveAesFromShared(shared: Uint8Array, salt: Uint8Array, infoLab
   );
 }
 
-// Encrypt a room key for a recipient using ephemeral ECDH + HKDF + AES-GCM
-export async function packRoomKeyForRecipient(roomKey: CryptoKey, recipientPublicJwk: JWK): Promise<{ epk: JWK; saltB64: string; nonceB64: string; ctB64: string }>{
+const envelopeAad = (roomId: string, keyVersion: number) => utf8Encode(`lanhub-roomkey:${roomId}:${keyVersion}`);
+
+// What the distributor signs: routing fields plus the wrapped room key
+const signedRoomKeyBytes = (e: RoomKeyEnvelope) =>
+  utf8Encode(JSON.stringify(['lanhub-roomkey-v1', e.roomId, e.keyVersion, e.senderId, e.epk.x, e.epk.y, e.saltB64, e.nonceB64, e.ctB64]));
+
+// Encrypt a room key for a recipient using ephemeral ECDH + HKDF + AES-GCM,
+// signed by the distributing owner/admin (senderId)
+export async function packRoomKeyForRecipient(
+  roomKey: CryptoKey,
+  recipientPublicJwk: JWK,
+  roomId: string,
+  keyVersion: number,
+  senderId: string,
+  signingPrivateJwk: JWK,
+): Promise<RoomKeyEnvelope>{
   const ephem = await generateECDH();
   const shared = await deriveSharedBits(ephem.privateJwk, recipientPublicJwk);
   const salt = randomBytes(16);
   const aes = await deriveAesFromShared(shared, salt);
   const rawRoomKey = await exportAesRaw(roomKey);
-  const { nonceB64, ctB64 } = await aesEncryptBytes(aes, rawRoomKey);
-  return { epk: ephem.publicJwk, saltB64: bytesToBase64(salt), nonceB64, ctB64 };
+  const { nonceB64, ctB64 } = await aesEncryptBytes(aes, rawRoomKey, envelopeAad(roomId, keyVersion));
+  const env: RoomKeyEnvelope = { epk: ephem.publicJwk, saltB64: bytesToBase64(salt), nonceB64, ctB64, roomId, keyVersion, senderId };
+  env.sig = await signBytes(signingPrivateJwk, signedRoomKeyBytes(env));
+  return env;
 }
 
-// Decrypt a packed room key from a sender
-export async function unpackRoomKeyFromSender(privateJwk: JWK, epk: JWK, saltB64: string, nonceB64: string, ctB64: string): Promise<CryptoKey> {
-  const shared = await deriveSharedBits(privateJwk, epk);
-  const salt = base64ToBytes(saltB64);
+// Decrypt a packed room key (fails if roomId/keyVersion were altered); rejects
+// envelopes not signed by the claimed distributor
+export async function unpackRoomKeyFromSender(privateJwk: JWK, envelope: RoomKeyEnvelope, senderSigningJwk: JWK): Promise<CryptoKey> {
+  if (!envelope.sig || !(await verifyBytes(senderSigningJwk, signedRoomKeyBytes(envelope), envelope.sig))) {
+    throw new Error('Invalid room key signature');
+  }
+  const shared = await deriveSharedBits(privateJwk, envelope.epk);
+  const salt = base64ToBytes(envelope.saltB64);
   const aes = await deriveAesFromShared(shared, salt);
-  const raw = await aesDecryptBytes(aes, ctB64, nonceB64);
+  const raw = await aesDecryptBytes(aes, envelope.ctB64, envelope.nonceB64, envelopeAad(envelope.roomId, envelope.keyVersion));
   return importAesRaw(raw);
 }
 
-// Persistent storage helpers (localStorage)
-const ROOM_KEY_STORAGE = "lanhub_room_key_jwk";
+// Key of a direct message room: HKDF over the static ECDH secret of both
+// members, salted with the room id. Each side derives it alone; the result is
+// extractable so it can be stored like any room key.
+export async function deriveDirectKey(privateJwk: JWK, otherPublicJwk: JWK, roomId: string): Promise<CryptoKey> {
+  const shared = await deriveSharedBits(privateJwk, otherPublicJwk);
+  const baseKey = await crypto.subtle.importKey("raw", shared as BufferSource, "HKDF", false, ["deriveBits"]);
+  const bits = await crypto.subtle.deriveBits(
+    { name: "HKDF", hash: "SHA-256", salt: utf8Encode(roomId), info: utf8Encode("lanhub-dm-v1") },
+    baseKey,
+    256
+  );
+  return importAesRaw(new Uint8Array(bits));
+}
+
+// Sender-key ratchet. A chain key yields one message key per step:
+//   messageKey = HMAC(chainKey, 0x01), nextChainKey = HMAC(chainKey, 0x02)
+// and message keys are expanded with HKDF into the AES-GCM key. Old chain keys
+// are discarded, so a leaked chain state cannot decrypt earlier messages.
+async function hmacSha256(key: Uint8Array, data: Uint8Array): Promise<Uint8Array> {
+  if (!hasSubtle()) throw new Error('WebCrypto SubtleCrypto unavailable');
+  const hmacKey = await crypto.subtle.importKey("raw", key as BufferSource, { name: "HMAC", hash: "SHA-256" }, false, ["sign"]);
+  return new Uint8Array(await crypto.subtle.sign("HMAC", hmacKey, data as BufferSource));
+}
+
+export async function ratchetChainKey(chainKey: Uint8Array): Promise<{ messageKey: Uint8Array; nextChainKey: Uint8Array }> {
+  const [messageKey, nextChainKey] = await Promise.all([
+    hmacSha256(chainKey, new Uint8Array([1])),
+    hmacSha256(chainKey, new Uint8Array([2])),
+  ]);
+  return { messageKey, nextChainKey };
+}
+
+export async function importMessageKey(messageKey: Uint8Array): Promise<CryptoKey> {
+  return deriveAesFromShared(messageKey, new Uint8Array(32), "lanhub-senderkey-msg-v1");
+}
+
+const senderKeyAad = (e: Pick<SenderKeyEnvelope, 'roomId' | 'senderId' | 'chainId' | 'iteration'>) =>
+  utf8Encode(`lanhub-senderkey:${e.roomId}:${e.senderId}:${e.chainId}:${e.iteration}`);
+
+// What the sender signs: routing fields plus the wrapped chain key
+const signedSenderKeyBytes = (e: SenderKeyEnvelope) =>
+  utf8Encode(JSON.stringify(['lanhub-senderkey-v1', e.roomId, e.senderId, e.chainId, e.iteration, e.epk.x, e.epk.y, e.saltB64, e.nonceB64, e.ctB64]));
+
+// Wrap a chain key for a recipient (same ephemeral ECDH + HKDF scheme as room keys)
+export async function packSenderKeyForRecipient(
+  chainKey: Uint8Array,
+  recipientPublicJwk: JWK,
+  meta: { roomId: string; senderId: string; chainId: string; iteration: number },
+  signingPrivateJwk?: JWK,
+): Promise<SenderKeyEnvelope> {
+  const ephem = await generateECDH();
+  const shared = await deriveSharedBits(ephem.privateJwk, recipientPublicJwk);
+  const salt = randomBytes(16);
+  const aes = await deriveAesFromShared(shared, salt, "lanhub-senderkey-v1");
+  const { nonceB64, ctB64 } = await aesEncryptBytes(aes, chainKey, senderKeyAad(meta));
+  const env: SenderKeyEnvelope = { kind: 'sender_key', epk: ephem.publicJwk, saltB64: bytesToBase64(salt), nonceB64, ctB64, ...meta };
+  if (signingPrivateJwk) env.sig = await signBytes(signingPrivateJwk, signedSenderKeyBytes(env));
+  return env;
+}
+
+// Unwrap a chain key; rejects envelopes not signed by the claimed sender
+export async function unpackSenderKeyFromSender(privateJwk: JWK, envelope: SenderKeyEnvelope, senderSigningJwk: JWK): Promise<Uint8Array> {
+  if (!envelope.sig || !(await verifyBytes(senderSigningJwk, signedSenderKeyBytes(envelope), envelope.sig))) {
+    throw new Error('Invalid sender key signature');
+  }
+  const shared = await deriveSharedBits(privateJwk, envelope.epk);
+  const aes = await deriveAesFromShared(shared, base64ToBytes(envelope.saltB64), "lanhub-senderkey-v1");
+  return aesDecryptBytes(aes, envelope.ctB64, envelope.nonceB64, senderKeyAad(envelope));
+}
+
+// Persistent storage helpers (localStorage, per signed-in account)
+const LEGACY_ROOM_KEY_STORAGE = "lanhub_room_key_jwk";
+const ROOM_KEYS_STORAGE = "lanhub_room_keys";
 const USER_KEYS_STORAGE = "lanhub_user_ecdh_keys";
 
-export function saveRoomKeyJwk(jwk: JWK) {
-  localStorage.setItem(ROOM_KEY_STORAGE, JSON.stringify(jwk));
+// Per room: the current key epoch plus all older epochs (kept to read history)
+export interface StoredRoomKeyRing {
+  current: number;
+  epochs: Record<number, JWK>;
+}
+export type StoredRoomKeys = Record<string, StoredRoomKeyRing>;
+
+const isObject = (v: unknown): v is Record<string, unknown> => typeof v === 'object' && v !== null;
+
+// A stored key ring, or null when the entry is malformed
+function parseRoomKeyRing(entry: unknown): StoredRoomKeyRing | null {
+  if (!isObject(entry)) return null;
+  // Single-epoch entries ({ version, jwk }) predate key rotation
+  if (typeof entry.version === 'number' && isObject(entry.jwk)) {
+    return { current: entry.version, epochs: { [entry.version]: entry.jwk as JWK } };
+  }
+  if (typeof entry.current !== 'number' || !isObject(entry.epochs)) return null;
+  const epochs: Record<number, JWK> = {};
+  for (const [version, jwk] of Object.entries(entry.epochs)) {
+    if (Number.isInteger(Number(version)) && isObject(jwk)) epochs[Number(version)] = jwk as JWK;
+  }
+  return epochs[entry.current] ? { current: entry.current, epochs } : null;
+}
+
+export function loadRoomKeyJwks(): StoredRoomKeys {
+  const s = accountStorage.getItem(ROOM_KEYS_STORAGE);
+  let raw: unknown = {};
+  try {
+    raw = s ? JSON.parse(s) : {};
+  } catch {
+    console.warn('Ignoring unreadable saved room keys');
+  }
+  const keys: StoredRoomKeys = {};
+  for (const [roomId, entry] of Object.entries(isObject(raw) ? raw : {})) {
+    const ring = parseRoomKeyRing(entry);
+    if (ring) keys[roomId] = ring;
+    else console.warn('Ignoring malformed saved room key:', roomId);
+  }
+  // Migrate the single pre-per-room key to the global slot
+  const legacy = localStorage.getItem(LEGACY_ROOM_KEY_STORAGE);
+  if (legacy && !keys[GLOBAL_ROOM_ID]) {
+    keys[GLOBAL_ROOM_ID] = { current: 0, epochs: { 0: JSON.parse(legacy) as JWK } };
+    accountStorage.setItem(ROOM_KEYS_STORAGE, JSON.stringify(keys));
+  }
+  localStorage.removeItem(LEGACY_ROOM_KEY_STORAGE);
+  return keys;
+}
+export function saveRoomKeyJwk(roomId: string, version: number, jwk: JWK) {
+  const keys = loadRoomKeyJwks();
+  const ring = keys[roomId] ?? { current: version, epochs: {} };
+  ring.epochs[version] = jwk;
+  ring.current = Math.max(ring.current, version);
+  keys[roomId] = ring;
+  accountStorage.setItem(ROOM_KEYS_STORAGE, JSON.stringify(keys));
+}
+
+// ECDH pair plus the ECDSA signing pair (absent in keys saved before signing existed)
+export interface UserKeyPair {
+  publicJwk: JWK;
+  privateJwk: JWK;
+  signingPublicJwk?: JWK;
+  signingPrivateJwk?: JWK;
 }
-export function loadRoomKeyJwk(): JWK | null {
-  const s = localStorage.getItem(ROOM_KEY_STORAGE);
-  return s ? (JSON.parse(s) as JWK) : null;
+
+export function saveUserKeyPair(publicJwk: JWK, privateJwk: JWK, signing?: { publicJwk: JWK; privateJwk: JWK }) {
+  const keys: UserKeyPair = { publicJwk, privateJwk };
+  if (signing) {
+    keys.signingPublicJwk = signing.publicJwk;
+    keys.signingPrivateJwk = signing.privateJwk;
+  }
+  accountStorage.setItem(USER_KEYS_STORAGE, JSON.stringify(keys));
 }
+export function loadUserKeyPair(): UserKeyPair | null {
+  const s = accountStorage.getItem(USER_KEYS_STORAGE);
+  return s ? (JSON.parse(s) as UserKeyPair) : null;
+}
+
+// Identity verification
+// Only the public coordinates are hashed so key_ops/ext noise cannot change a fingerprint.
+const canonicalPublicJwk = (jwk: JWK) => JSON.stringify({ crv: jwk.crv, kty: jwk.kty, x: jwk.x, y: jwk.y });
+const SAFETY_ITERATIONS = 1024;
+
+const concatBytes = (...parts: Uint8Array[]) => {
+  const out = new Uint8Array(parts.reduce((n, p) => n + p.length, 0));
+  let offset = 0;
+  for (const p of parts) {
+    out.set(p, offset);
+    offset += p.length;
+  }
+  return out;
+};
+const sha256 = async (data: Uint8Array) =>
+  new Uint8Array(await crypto.subtle.digest('SHA-256', data as BufferSource));
+
+// Hex SHA-256 of a public key; what the trust store pins
+export async function publicKeyFingerprint(jwk: JWK): Promise<string> {
+  const digest = await sha256(utf8Encode(canonicalPublicJwk(jwk)));
+  return Array.from(digest, b => b.toString(16).padStart(2, '0')).join('');
+}
+
+// Public identity of a user: ECDH key and, once published, the signing key
+export interface IdentityKeys {
+  publicJwk: JWK;
+  signingJwk?: JWK;
+}
+
+// Iterated hash of (keys, userId): slow enough to make grinding a colliding key costly
+async function identityDigest(userId: string, identity: IdentityKeys): Promise<Uint8Array> {
+  const key = utf8Encode(canonicalPublicJwk(identity.publicJwk) + (identity.signingJwk ? canonicalPublicJwk(identity.signingJwk) : ''));
+  let hash = concatBytes(key, utf8Encode(userId));
+  for (let i = 0; i < SAFETY_ITERATIONS; i++) hash = await sha256(concatBytes(hash, key));
+  return hash;
+}
+
+// 30 digits per side: six 5-byte chunks, each reduced to 5 decimal digits
+const digestDigits = (digest: Uint8Array) => {
+  let out = '';
+  for (let i = 0; i < 30; i += 5) {
+    let n = 0;
+    for (let j = 0; j < 5; j++) n = n * 256 + digest[i + j];
+    out += String(n % 100000).padStart(5, '0');
+  }
+  return out;
+};
+
+export interface SafetyNumber {
+  digits: string; // 60 digits, identical on both sides; show in groups of 5
+  words: string[]; // 8 words from SAFETY_WORDS, for reading aloud
+}
+
+// Pairwise safety number (Signal-style): both users compute the same value
+// only if each sees the other's real key, so a swapped key shows up here.
+export async function computeSafetyNumber(localId: string, local: IdentityKeys, remoteId: string, remote: IdentityKeys): Promise<SafetyNumber> {
+  const sides = await Promise.all([
+    identityDigest(localId, local),
+    identityDigest(remoteId, remote),
+  ]);
+  const [first, second] = sides.map(digestDigits).sort() as [string, string];
+  const combined = await sha256(utf8Encode(first + second));
+  return {
+    digits: first + second,
+    words: Array.from(combined.slice(0, 8), b => SAFETY_WORDS[b]),
+  };
+}
+
+// Persisted trust state: fingerprints of keys the user verified in person
+const TRUSTED_KEYS_STORAGE = "lanhub_trusted_keys";
+// signingFingerprint is pinned too when the user had published a signing key
+export type TrustedKeys = Record<string, { fingerprint: string; signingFingerprint?: string; verifiedAt: number }>;
+
+export function loadTrustedKeys(): TrustedKeys {
+  const s = accountStorage.getItem(TRUSTED_KEYS_STORAGE);
+  return s ? (JSON.parse(s) as TrustedKeys) : {};
+}
+export function saveTrustedKeys(keys: TrustedKeys) {
+  accountStorage.setItem(TRUSTED_KEYS_STORAGE, JSON.stringify(keys));
+}
+
+// Signing keys seen for other users, so history from offline senders still verifies
+const SIGNING_KEYS_STORAGE = "lanhub_signing_keys";
 
-export function saveUserKeyPair(publicJwk: JWK, privateJwk: JWK) {
-  localStorage.setItem(USER_KEYS_STORAGE, JSON.stringify({ publicJwk, privateJwk }));
+export function loadKnownSigningKeys(): Record<string, JWK> {
+  const s = accountStorage.getItem(SIGNING_KEYS_STORAGE);
+  return s ? (JSON.parse(s) as Record<string, JWK>) : {};
 }
-export function loadUserKeyPair(): { publicJwk: JWK; privateJwk: JWK } | null {
-  const s = localStorage.getItem(USER_KEYS_STORAGE);
-  return s ? (JSON.parse(s) as { publicJwk: JWK; privateJwk: JWK }) : null;
+export function saveKnownSigningKeys(keys: Record<string, JWK>) {
+  accountStorage.setItem(SIGNING_KEYS_STORAGE, JSON.stringify(keys));
 }
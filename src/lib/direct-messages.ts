@@ -0,0 +1,16 @@
+/*
+  Direct messages: one private two-member room per pair of accounts.
+  - The room id is derived from both account ids, so either side opens the same room.
+  - Its key is never distributed: both members derive it by ECDH from their
+    identity keys (deriveDirectKey in crypto.ts). Sender keys are not used.
+  - Membership is fixed: no invites, admins, leaving, rotation or deletion.
+*/
+const DIRECT_ROOM_PREFIX = 'dm:';
+
+export const directRoomId = (a: string, b: string) => DIRECT_ROOM_PREFIX + [a, b].sort().join(':');
+
+// Ids of this shape are reserved for open_direct
+export const isDirectRoomId = (roomId: string) => roomId.startsWith(DIRECT_ROOM_PREFIX);
+
+// The member of a direct room other than userId
+export const directPeer = (room: { participants: string[] }, userId: string) => room.participants.find(p => p !== userId);
@@ -0,0 +1,78 @@
+/*
+  Message edits and deletes. Both are messages of their own type ('edit',
+  'delete') naming the original in `targetId`, so the server sequences and
+  pages them like any message. An edit carries the new content (encrypted
+  like the original); earlier versions stay listed as edit history. A delete
+  leaves a tombstone: the server and every client drop the original content
+  and the content of its edits.
+  Only the sender or an admin of the room may issue them; the server checks,
+  and clients check again against what they know of the room.
+*/
+import type { EditVersion, Message } from '@/types';
+
+export const isEditEvent = (m: Pick<Message, 'type'>) => m.type === 'edit' || m.type === 'delete';
+
+// Messages an edit or delete may target
+export const isEditable = (m: Pick<Message, 'type' | 'deleted'>) => (m.type === 'text' || m.type === 'file') && !m.deleted;
+
+type TombstoneFields = Pick<Message, 'id' | 'senderId' | 'senderName' | 'timestamp' | 'roomId' | 'type' | 'seq' | 'targetId' | 'replyTo' | 'threadRootId'>;
+
+// What remains of a deleted message (or of an edit of one): routing and thread fields only
+export const tombstone = (m: TombstoneFields) => ({
+  id: m.id,
+  senderId: m.senderId,
+  senderName: m.senderName,
+  timestamp: m.timestamp,
+  roomId: m.roomId,
+  type: m.type,
+  seq: m.seq,
+  targetId: m.targetId,
+  replyTo: m.replyTo,
+  threadRootId: m.threadRootId,
+  content: '',
+  deleted: true as const,
+});
+
+// Fold edit and delete events into their targets (in sequence order, our
+// unsent ones last). Returns the messages without the events. Events whose
+// sender fails mayModify are ignored.
+export function applyEdits(messages: Message[], mayModify: (userId: string, target: Message) => boolean): Message[] {
+  const byId = new Map(messages.map(m => [m.id, m]));
+  const versions = new Map<string, EditVersion[]>();
+  const deleted = new Set<string>();
+  const events = messages
+    .filter(isEditEvent)
+    .sort((a, b) => (a.seq ?? Infinity) - (b.seq ?? Infinity) || a.timestamp - b.timestamp);
+  for (const e of events) {
+    const target = e.targetId ? byId.get(e.targetId) : undefined;
+    if (!target || !isEditable(target) || target.roomId !== e.roomId || !mayModify(e.senderId, target)) continue;
+    if (e.type === 'delete') {
+      deleted.add(target.id);
+    } else if (!e.enc && !e.deleted) {
+      const list = versions.get(target.id) ?? [];
+      list.push({ id: e.id, content: e.content, timestamp: e.timestamp, editorId: e.senderId, editorName: e.senderName, sigValid: e.sigValid });
+      versions.set(target.id, list);
+    }
+  }
+  return messages.filter(m => !isEditEvent(m)).map((m): Message => {
+    if (deleted.has(m.id)) return tombstone(m);
+    const edits = versions.get(m.id);
+    if (!edits) return m;
+    const latest = edits[edits.length - 1];
+    const original = m.enc ? [] : [{
+      id: m.id, content: m.content, timestamp: m.timestamp, editorId: m.senderId, editorName: m.senderName, sigValid: m.sigValid,
+    }];
+    // The shown content (and its signature) is the latest edit's, which is
+    // the editor's: an admin's edit is not signed by the sender
+    return {
+      ...m,
+      enc: false,
+      content: latest.content,
+      sigValid: latest.sigValid,
+      editedAt: latest.timestamp,
+      editorId: latest.editorId,
+      editorName: latest.editorName,
+      edits: [...original, ...edits.slice(0, -1)],
+    };
+  });
+}
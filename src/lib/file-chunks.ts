@@ -0,0 +1,66 @@
+/*
+  Server-side chunk store behind both transports: the JSON actions
+  (upload_chunk, download_file_chunk; base64 in the body) and the binary
+  endpoint at chunkPath() (raw body, nonce in a header). Chunks are kept raw
+  either way. Refusals are returned as responses, ready to send.
+*/
+import { canAccessTransfer, forbidden } from '@/lib/authz';
+import { getPersistence } from '@/lib/persistence';
+import { MAX_CHUNK_UPLOADS } from '@/lib/protocol';
+import { getServerState, StoredChunk } from '@/lib/server-state';
+
+const state = getServerState();
+
+// Store a chunk of the caller's own transfer; null once it is stored
+export async function storeChunk(
+  userId: string,
+  transferId: string,
+  index: number,
+  totalChunks: number | undefined,
+  chunk: StoredChunk,
+): Promise<Response | null> {
+  const t = state.fileTransfers.get(transferId);
+  if (!t) return Response.json({ error: 'Unknown transfer' }, { status: 400 });
+  if (t.senderId !== userId) return forbidden();
+  const total = totalChunks || t.totalChunks;
+  if (index >= total) return Response.json({ error: 'Chunk index out of range' }, { status: 400 });
+  // Push back instead of queueing writes: the client's window shrinks
+  const uploading = state.chunkUploads.get(userId) ?? 0;
+  if (uploading >= MAX_CHUNK_UPLOADS) {
+    return Response.json({ error: 'Too many chunk uploads' }, { status: 429, headers: { 'Retry-After': '1' } });
+  }
+  state.chunkUploads.set(userId, uploading + 1);
+  try {
+    const persistence = getPersistence();
+    const wasCompleted = t.completed;
+    const prevTotal = t.totalChunks;
+    t.totalChunks = total;
+    t.chunks.set(index, chunk);
+    // Chunks past a total that shrank since do not count
+    let stored = 0;
+    for (const i of t.chunks.keys()) if (i < total) stored++;
+    if (stored >= total) {
+      t.completed = true;
+    }
+    await persistence.saveFileChunk(t.id, index, chunk);
+    if (t.completed !== wasCompleted || t.totalChunks !== prevTotal) {
+      const { chunks, ...meta } = t;
+      await persistence.saveFileTransfer(meta);
+    }
+  } finally {
+    const left = (state.chunkUploads.get(userId) ?? 1) - 1;
+    if (left > 0) state.chunkUploads.set(userId, left);
+    else state.chunkUploads.delete(userId);
+  }
+  return null;
+}
+
+// A chunk the caller may read, or the refusal
+export function readChunk(userId: string, transferId: string, index: number): StoredChunk | Response {
+  const t = state.fileTransfers.get(transferId);
+  if (!t) return Response.json({ error: 'Not found' }, { status: 404 });
+  if (!canAccessTransfer(t, userId)) return forbidden();
+  const chunk = t.chunks.get(index);
+  if (!chunk) return Response.json({ error: 'Chunk not ready' }, { status: 404 });
+  return chunk;
+}
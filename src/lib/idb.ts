@@ -0,0 +1,34 @@
+/*
+  Minimal promise wrappers over IndexedDB for the per-account browser stores
+  (search index, received file chunks). Each database is opened once per page.
+*/
+
+const databases = new Map<string, Promise<IDBDatabase>>();
+
+// `upgrade` creates the object stores of a fresh (or older) database
+export function openDatabase(name: string, version: number, upgrade: (db: IDBDatabase) => void): Promise<IDBDatabase> {
+  let db = databases.get(name);
+  if (!db) {
+    db = new Promise((resolve, reject) => {
+      const req = indexedDB.open(name, version);
+      req.onupgradeneeded = () => upgrade(req.result);
+      req.onsuccess = () => resolve(req.result);
+      req.onerror = () => reject(req.error);
+    });
+    // A failed open (private mode, quota) may succeed on a later call
+    db.catch(() => databases.delete(name));
+    databases.set(name, db);
+  }
+  return db;
+}
+
+export const completed = (tx: IDBTransaction) => new Promise<void>((resolve, reject) => {
+  tx.oncomplete = () => resolve();
+  tx.onerror = () => reject(tx.error);
+  tx.onabort = () => reject(tx.error);
+});
+
+export const requested = <T>(req: IDBRequest<T>) => new Promise<T>((resolve, reject) => {
+  req.onsuccess = () => resolve(req.result);
+  req.onerror = () => reject(req.error);
+});
@@ -8,6 +8,48 @@ const STORAGE_KEYS = {
   FILE_TRANSFERS: 'lanhub_file_transfers',
   ACTIVITY_LOGS: 'lanhub_activity_logs',
   CHAT_ROOMS: 'lanhub_chat_rooms',
+  DISMISSED_TRANSFERS: 'lanhub_dismissed_transfers',
+};
+
+// State of the signed-in account (keys, message history, room lists) lives
+// under `${name}:${accountId}`, so another account signing in on the same
+// browser never loads it. Nothing is read or written while signed out.
+let storageAccount: string | null = null;
+
+export const setStorageAccount = (accountId: string | null) => {
+  storageAccount = accountId;
+};
+
+export const accountStorage = {
+  getItem: (name: string): string | null =>
+    storageAccount ? localStorage.getItem(`${name}:${storageAccount}`) : null,
+  setItem: (name: string, value: string) => {
+    if (storageAccount) localStorage.setItem(`${name}:${storageAccount}`, value);
+  },
+  removeItem: (name: string) => {
+    if (storageAccount) localStorage.removeItem(`${name}:${storageAccount}`);
+  },
+};
+
+// Merge helper to keep unique messages by id, ordered by seq/timestamp.
+// A decrypted copy is never replaced by a still-encrypted one (sender-key
+// message keys are single-use, so a re-delivered copy cannot be decrypted).
+export const mergeMessages = (prev: Message[], incoming: Message[]): Message[] => {
+  const map = new Map<string, Message>();
+  for (const m of prev) map.set(m.id, m);
+  for (const m of incoming) {
+    const existing = map.get(m.id);
+    if (existing && !existing.enc && m.enc) continue;
+    map.set(m.id, m);
+  }
+  const arr = Array.from(map.values());
+  arr.sort((a, b) => {
+    const sa = a.seq ?? 0;
+    const sb = b.seq ?? 0;
+    if (sa !== sb) return sa - sb;
+    return a.timestamp - b.timestamp;
+  });
+  return arr;
 };
 
 export const storage = {
@@ -75,7 +117,7 @@ export const storage = {
 
   // Messages
   getMessages: (): Message[] => {
-    const messages = localStorage.getItem(STORAGE_KEYS.MESSAGES);
+    const messages = accountStorage.getItem(STORAGE_KEYS.MESSAGES);
     return messages ? JSON.parse(messages) : [];
   },
 
@@ -83,13 +125,47 @@ export const storage = {
     const messages = storage.getMessages();
     if (!messages.find(m => m.id === message.id)) {
       messages.push(message);
-      localStorage.setItem(STORAGE_KEYS.MESSAGES, JSON.stringify(messages));
+      accountStorage.setItem(STORAGE_KEYS.MESSAGES, JSON.stringify(messages));
+    }
+  },
+
+  // Insert, or replace a stored copy that is still encrypted
+  saveIncomingMessage: (message: Message) => {
+    const messages = storage.getMessages();
+    const index = messages.findIndex(m => m.id === message.id);
+    if (index === -1) {
+      messages.push(message);
+    } else if (!message.enc && (messages[index].enc || (messages[index].seq === undefined && message.seq !== undefined))) {
+      // Decrypted now, or our own send now sequenced by the server
+      messages[index] = message;
+    } else {
+      return;
     }
+    accountStorage.setItem(STORAGE_KEYS.MESSAGES, JSON.stringify(messages));
+  },
+
+  // Merge a batch (e.g. a page of older history) into the cache
+  mergeMessages: (incoming: Message[]) => {
+    accountStorage.setItem(STORAGE_KEYS.MESSAGES, JSON.stringify(mergeMessages(storage.getMessages(), incoming)));
+  },
+
+  updateMessage: (messageId: string, updates: Partial<Message>) => {
+    const messages = storage.getMessages();
+    const index = messages.findIndex(m => m.id === messageId);
+    if (index !== -1) {
+      messages[index] = { ...messages[index], ...updates };
+      accountStorage.setItem(STORAGE_KEYS.MESSAGES, JSON.stringify(messages));
+    }
+  },
+
+  removeMessage: (messageId: string) => {
+    const messages = storage.getMessages().filter(m => m.id !== messageId);
+    accountStorage.setItem(STORAGE_KEYS.MESSAGES, JSON.stringify(messages));
   },
 
   // File transfers
   getFileTransfers: (): FileTransfer[] => {
-    const transfers = localStorage.getItem(STORAGE_KEYS.FILE_TRANSFERS);
+    const transfers = accountStorage.getItem(STORAGE_KEYS.FILE_TRANSFERS);
     return transfers ? JSON.parse(transfers) : [];
   },
 
@@ -101,7 +177,7 @@ export const storage = {
     } else {
       transfers[idx] = { ...transfers[idx], ...transfer };
     }
-    localStorage.setItem(STORAGE_KEYS.FILE_TRANSFERS, JSON.stringify(transfers));
+    accountStorage.setItem(STORAGE_KEYS.FILE_TRANSFERS, JSON.stringify(transfers));
   },
 
   updateFileTransfer: (transferId: string, updates: Partial<FileTransfer>) => {
@@ -109,28 +185,28 @@ export const storage = {
     const index = transfers.findIndex(t => t.id === transferId);
     if (index !== -1) {
       transfers[index] = { ...transfers[index], ...updates };
-      localStorage.setItem(STORAGE_KEYS.FILE_TRANSFERS, JSON.stringify(transfers));
+      accountStorage.setItem(STORAGE_KEYS.FILE_TRANSFERS, JSON.stringify(transfers));
     }
   },
 
   removeFileTransfer: (transferId: string) => {
     const transfers = storage.getFileTransfers().filter(t => t.id !== transferId);
-    localStorage.setItem(STORAGE_KEYS.FILE_TRANSFERS, JSON.stringify(transfers));
+    accountStorage.setItem(STORAGE_KEYS.FILE_TRANSFERS, JSON.stringify(transfers));
   },
 
   // Dismissed transfers (receiver-side) to keep lists clean
   getDismissedTransfers: (): string[] => {
-    const s = localStorage.getItem('lanhub_dismissed_transfers');
+    const s = accountStorage.getItem(STORAGE_KEYS.DISMISSED_TRANSFERS);
     return s ? JSON.parse(s) : [];
   },
   addDismissedTransfer: (id: string) => {
     const list = storage.getDismissedTransfers();
     if (!list.includes(id)) list.push(id);
-    localStorage.setItem('lanhub_dismissed_transfers', JSON.stringify(list));
+    accountStorage.setItem(STORAGE_KEYS.DISMISSED_TRANSFERS, JSON.stringify(list));
   },
   removeDismissedTransfer: (id: string) => {
     const list = storage.getDismissedTransfers().filter(x => x !== id);
-    localStorage.setItem('lanhub_dismissed_transfers', JSON.stringify(list));
+    accountStorage.setItem(STORAGE_KEYS.DISMISSED_TRANSFERS, JSON.stringify(list));
   },
 
   // Activity logs
@@ -151,14 +227,18 @@ export const storage = {
 
   // Chat rooms
   getChatRooms: (): ChatRoom[] => {
-    const rooms = localStorage.getItem(STORAGE_KEYS.CHAT_ROOMS);
+    const rooms = accountStorage.getItem(STORAGE_KEYS.CHAT_ROOMS);
     return rooms ? JSON.parse(rooms) : [];
   },
 
+  setChatRooms: (rooms: ChatRoom[]) => {
+    accountStorage.setItem(STORAGE_KEYS.CHAT_ROOMS, JSON.stringify(rooms));
+  },
+
   addChatRoom: (room: ChatRoom) => {
     const rooms = storage.getChatRooms();
     rooms.push(room);
-    localStorage.setItem(STORAGE_KEYS.CHAT_ROOMS, JSON.stringify(rooms));
+    accountStorage.setItem(STORAGE_KEYS.CHAT_ROOMS, JSON.stringify(rooms));
   },
 
   updateChatRoom: (roomId: string, updates: Partial<ChatRoom>) => {
@@ -166,7 +246,7 @@ export const storage = {
     const idx = rooms.findIndex(r => r.id === roomId);
     if (idx !== -1) {
       rooms[idx] = { ...rooms[idx], ...updates };
-      localStorage.setItem(STORAGE_KEYS.CHAT_ROOMS, JSON.stringify(rooms));
+      accountStorage.setItem(STORAGE_KEYS.CHAT_ROOMS, JSON.stringify(rooms));
     }
   },
 };
\ No newline at end of file
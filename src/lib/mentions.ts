@@ -0,0 +1,35 @@
+/*
+  @mentions. The composer resolves `@username` tokens to account ids, which
+  travel in the message body (encrypted with the content, bodyFormat 'json'),
+  so the server never sees who is addressed. Messages without that metadata
+  (plaintext, or from older clients) are matched against the reader's own
+  username instead.
+*/
+import type { Message } from '@/types';
+
+// Same characters as usernames (src/lib/auth.ts)
+const MENTION_PATTERN = /(?:^|\s)@([a-zA-Z0-9_.-]{3,32})/g;
+
+// Ids of the users whose usernames are mentioned in content (each once)
+export function resolveMentions(content: string, users: { id: string; username: string }[]): string[] {
+  const byName = new Map(users.map(u => [u.username.toLowerCase(), u.id]));
+  const ids = new Set<string>();
+  for (const match of content.matchAll(MENTION_PATTERN)) {
+    const id = byName.get(match[1].toLowerCase());
+    if (id) ids.add(id);
+  }
+  return Array.from(ids);
+}
+
+export function mentionsUser(message: Message, user: { id: string; username: string }): boolean {
+  if (message.deleted || message.enc || message.type !== 'text') return false;
+  if (message.mentions) return message.mentions.includes(user.id);
+  return resolveMentions(message.content, [user]).length > 0;
+}
+
+// The `@partial` token the caret is in, for autocomplete
+export function mentionQuery(text: string, caret: number): { start: number; query: string } | null {
+  const match = /(?:^|\s)@([a-zA-Z0-9_.-]*)$/.exec(text.slice(0, caret));
+  if (!match) return null;
+  return { start: caret - match[1].length - 1, query: match[1] };
+}
@@ -0,0 +1,53 @@
+/*
+  Outbox: actions the server has not confirmed yet, kept in localStorage so
+  they survive reloads and Wi-Fi drops.
+  - Entries are sent in order. A transient failure (network error, timeout,
+    5xx, 408/409/429) stops the pass and retries with backoff; any other
+    rejection marks that entry failed and the pass moves on.
+  - After MAX_ATTEMPTS transient failures an entry is failed too. Failed
+    entries stay until they are retried or discarded by the user.
+  - Message sends keep their Message.id, so the server answers a retry of a
+    send it already stored with that copy instead of a second entry.
+*/
+import type { ActionPayload, ActionType } from '@/lib/protocol';
+
+const OUTBOX_KEY = 'lanhub_outbox';
+
+export const MAX_ATTEMPTS = 8;
+
+export type OutboxAction = Extract<
+  ActionType,
+  'send_message' | 'create_room' | 'join_room' | 'update_room' | 'leave_room' | 'delete_room' | 'key_update'
+>;
+
+export type OutboxItem = { [T in OutboxAction]: { type: T; payload: ActionPayload<T> } }[OutboxAction];
+
+export type OutboxEntry = OutboxItem & {
+  id: string; // Message.id for sends (also the socket frame id)
+  userId: string; // queued by this account; only it sends the entry
+  status: 'pending' | 'failed';
+  attempts: number;
+  nextAttemptAt: number;
+  error?: string;
+};
+
+// Backoff before attempt n + 1 (the same curve as push reconnects)
+export const retryDelay = (attempts: number) => Math.min(30000, 1000 * 2 ** attempts);
+
+// status 0: no reply at all (network error or timeout)
+export const isTransientFailure = (status: number) =>
+  status === 0 || status === 408 || status === 409 || status === 429 || status >= 500;
+
+export const loadOutbox = (): OutboxEntry[] => {
+  try {
+    const raw = localStorage.getItem(OUTBOX_KEY);
+    return raw ? JSON.parse(raw) : [];
+  } catch {
+    return [];
+  }
+};
+
+export const saveOutbox = (entries: OutboxEntry[]) => {
+  if (entries.length === 0) localStorage.removeItem(OUTBOX_KEY);
+  else localStorage.setItem(OUTBOX_KEY, JSON.stringify(entries));
+};
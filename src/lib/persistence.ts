@@ -0,0 +1,383 @@
+/*
+  Pluggable durable storage behind the in-memory server maps (server-state.ts).
+  - 'sqlite' (default): local libSQL file via drizzle, migrations from ./drizzle
+  - 'memory': no-op driver, state lives only as long as the process (tests)
+  Select with LANHUB_STORAGE=sqlite|memory and LANHUB_DB_URL=file:data/lanhub.db.
+  Message bodies and key envelopes are stored as opaque JSON, file chunks as raw
+  bytes; ciphertext is never inspected.
+*/
+import { mkdirSync } from 'node:fs';
+import path from 'node:path';
+import { createClient } from '@libsql/client';
+import { drizzle } from 'drizzle-orm/libsql';
+import { migrate } from 'drizzle-orm/libsql/migrator';
+import { and, asc, desc, eq, gt, isNull, lt, max, sql } from 'drizzle-orm';
+import * as schema from '@/db/schema';
+import type { KeyUpdate, Receipt, WireMessage } from '@/lib/protocol';
+import {
+  getServerState,
+  HOT_MESSAGES_PER_ROOM,
+  ServerAccount,
+  ServerFileTransfer,
+  ServerIdentityKeys,
+  ServerRoom,
+  ServerRoomInvite,
+  ServerSession,
+  StoredChunk,
+} from '@/lib/server-state';
+
+export type StoredTransfer = Omit<ServerFileTransfer, 'chunks'>;
+
+// True for a write refused by a UNIQUE constraint (drizzle wraps the libSQL error)
+export function isUniqueViolation(error: unknown): boolean {
+  for (let e = error; e instanceof Error; e = e.cause) {
+    if (/UNIQUE constraint failed/.test(e.message)) return true;
+  }
+  return false;
+}
+
+export interface PersistedSnapshot {
+  messages: WireMessage[]; // most recent per room, ascending by seq
+  lastSeq: number;
+  rooms: ServerRoom[];
+  fileTransfers: ServerFileTransfer[];
+  keyUpdates: Map<string, KeyUpdate[]>;
+  identityKeys: ServerIdentityKeys[];
+  accounts: ServerAccount[];
+  sessions: ServerSession[]; // unexpired only
+  receipts: Receipt[];
+  roomInvites: ServerRoomInvite[]; // unexpired only
+}
+
+export interface StorageDriver {
+  kind: 'sqlite' | 'memory';
+  // messageLimit applies per room (global included)
+  load(messageLimit: number): Promise<PersistedSnapshot>;
+  // Rejects when the id or seq is already stored
+  saveMessage(message: WireMessage & { seq: number }): Promise<void>;
+  // Up to `limit` messages of a room (undefined = global) with seq < beforeSeq, ascending
+  loadMessages(roomId: string | undefined, beforeSeq: number, limit: number): Promise<WireMessage[]>;
+  loadMessage(id: string): Promise<WireMessage | undefined>;
+  // Edit events targeting a message
+  loadEdits(targetId: string): Promise<WireMessage[]>;
+  // Overwrite a stored message body (tombstones)
+  replaceMessage(message: WireMessage): Promise<void>;
+  saveRoom(room: ServerRoom): Promise<void>;
+  // Also drops the room's invites
+  deleteRoom(roomId: string): Promise<void>;
+  saveRoomInvite(invite: ServerRoomInvite): Promise<void>;
+  deleteRoomInvites(roomId: string): Promise<void>;
+  saveFileTransfer(transfer: StoredTransfer): Promise<void>;
+  saveFileChunk(transferId: string, index: number, chunk: StoredChunk): Promise<void>;
+  enqueueKeyUpdate(targetUserId: string, update: KeyUpdate): Promise<void>;
+  clearKeyUpdates(targetUserId: string): Promise<void>;
+  saveIdentityKeys(keys: ServerIdentityKeys): Promise<void>;
+  saveAccount(account: ServerAccount): Promise<void>;
+  saveSession(session: ServerSession): Promise<void>;
+  deleteSession(tokenHash: string): Promise<void>;
+  saveReceipt(receipt: Receipt): Promise<void>;
+}
+
+export function createMemoryDriver(): StorageDriver {
+  return {
+    kind: 'memory',
+    load: async () => ({ messages: [], lastSeq: 0, rooms: [], fileTransfers: [], keyUpdates: new Map(), identityKeys: [], accounts: [], sessions: [], receipts: [], roomInvites: [] }),
+    saveMessage: async () => {},
+    loadMessages: async () => [],
+    loadMessage: async () => undefined,
+    loadEdits: async () => [],
+    replaceMessage: async () => {},
+    saveRoom: async () => {},
+    deleteRoom: async () => {},
+    saveRoomInvite: async () => {},
+    deleteRoomInvites: async () => {},
+    saveFileTransfer: async () => {},
+    saveFileChunk: async () => {},
+    enqueueKeyUpdate: async () => {},
+    clearKeyUpdates: async () => {},
+    saveIdentityKeys: async () => {},
+    saveAccount: async () => {},
+    saveSession: async () => {},
+    deleteSession: async () => {},
+    saveReceipt: async () => {},
+  };
+}
+
+export function createSqliteDriver(url: string): StorageDriver {
+  if (url.startsWith('file:')) {
+    mkdirSync(path.dirname(path.resolve(url.slice('file:'.length))), { recursive: true });
+  }
+  const client = createClient({ url });
+  const db = drizzle(client, { schema });
+  const migrated = migrate(db, { migrationsFolder: path.join(process.cwd(), 'drizzle') });
+
+  const toRoomRow = (r: ServerRoom) => ({
+    id: r.id,
+    name: r.name,
+    participants: r.participants,
+    createdBy: r.createdBy,
+    createdAt: r.createdAt,
+    isPublic: r.isPublic,
+    admins: r.admins ?? [],
+    keyVersion: r.keyVersion ?? null,
+    rekeyNeeded: !!r.rekeyNeeded,
+    isDirect: !!r.isDirect,
+  });
+
+  const inRoom = (roomId: string | undefined) =>
+    roomId ? eq(schema.messages.roomId, roomId) : isNull(schema.messages.roomId);
+
+  const pageMessages = async (roomId: string | undefined, beforeSeq: number, limit: number) => {
+    const rows = await db.select().from(schema.messages)
+      .where(and(inRoom(roomId), lt(schema.messages.seq, beforeSeq)))
+      .orderBy(desc(schema.messages.seq))
+      .limit(limit)
+      .all();
+    return rows.reverse().map(m => m.data as WireMessage);
+  };
+
+  return {
+    kind: 'sqlite',
+    async load(messageLimit) {
+      await migrated;
+      const roomRows = await db.select().from(schema.rooms).all();
+      // Messages of deleted rooms stay on disk but are not loaded
+      const recent: WireMessage[] = [];
+      for (const roomId of [undefined, ...roomRows.map(r => r.id)]) {
+        recent.push(...await pageMessages(roomId, Number.MAX_SAFE_INTEGER, messageLimit));
+      }
+      recent.sort((a, b) => (a.seq ?? 0) - (b.seq ?? 0));
+      const [{ lastSeq }] = await db.select({ lastSeq: max(schema.messages.seq) }).from(schema.messages).all();
+      const transferRows = await db.select().from(schema.fileTransfers).all();
+      const chunkRows = await db.select({
+        transferId: schema.fileChunks.transferId,
+        index: schema.fileChunks.index,
+        data: schema.fileChunks.data,
+        nonce: schema.fileChunks.nonce,
+        // Chunks stored before migration 0007 are base64 text
+        legacy: sql<number>`typeof(${schema.fileChunks.data}) = 'text'`,
+      }).from(schema.fileChunks).orderBy(asc(schema.fileChunks.index)).all();
+      const keyRows = await db.select().from(schema.keyUpdates).orderBy(asc(schema.keyUpdates.id)).all();
+      const identityRows = await db.select().from(schema.identityKeys).all();
+      const accountRows = await db.select().from(schema.accounts).all();
+      const sessionRows = await db.select().from(schema.sessions).where(gt(schema.sessions.expiresAt, Date.now())).all();
+      const receiptRows = await db.select().from(schema.receipts).all();
+      const inviteRows = await db.select().from(schema.roomInvites).where(gt(schema.roomInvites.expiresAt, Date.now())).all();
+
+      const transfers = new Map<string, ServerFileTransfer>();
+      for (const t of transferRows) {
+        transfers.set(t.id, {
+          ...t,
+          recipients: t.recipients ?? undefined,
+          roomId: t.roomId ?? undefined,
+          keyVersion: t.keyVersion ?? undefined,
+          signature: t.signature ?? undefined,
+          chunks: new Map(),
+        });
+      }
+      for (const c of chunkRows) {
+        const data = c.legacy ? Buffer.from(c.data.toString(), 'base64') : c.data;
+        transfers.get(c.transferId)?.chunks.set(c.index, { data, nonce: c.nonce });
+      }
+      const keyUpdates = new Map<string, KeyUpdate[]>();
+      for (const k of keyRows) {
+        if (!keyUpdates.has(k.targetUserId)) keyUpdates.set(k.targetUserId, []);
+        keyUpdates.get(k.targetUserId)!.push(k.data as KeyUpdate);
+      }
+      return {
+        messages: recent,
+        lastSeq: lastSeq ?? 0,
+        rooms: roomRows.map(r => ({ ...r, admins: r.admins ?? [], keyVersion: r.keyVersion ?? undefined })),
+        fileTransfers: Array.from(transfers.values()),
+        keyUpdates,
+        identityKeys: identityRows.map(k => ({ ...k, signingKeyJwk: k.signingKeyJwk ?? undefined })),
+        accounts: accountRows,
+        sessions: sessionRows,
+        receipts: receiptRows,
+        roomInvites: inviteRows,
+      };
+    },
+    async saveMessage(message) {
+      await migrated;
+      await db.insert(schema.messages).values({
+        id: message.id,
+        seq: message.seq,
+        roomId: message.roomId ?? null,
+        timestamp: message.timestamp,
+        data: message,
+      });
+    },
+    async loadMessages(roomId, beforeSeq, limit) {
+      await migrated;
+      return pageMessages(roomId, beforeSeq, limit);
+    },
+    async loadMessage(id) {
+      await migrated;
+      const row = await db.select().from(schema.messages).where(eq(schema.messages.id, id)).get();
+      return row?.data as WireMessage | undefined;
+    },
+    async loadEdits(targetId) {
+      await migrated;
+      const rows = await db.select().from(schema.messages)
+        .where(and(
+          sql`json_extract(${schema.messages.data}, '$.type') = 'edit'`,
+          sql`json_extract(${schema.messages.data}, '$.targetId') = ${targetId}`,
+        ))
+        .all();
+      return rows.map(m => m.data as WireMessage);
+    },
+    async replaceMessage(message) {
+      await migrated;
+      await db.update(schema.messages).set({ data: message }).where(eq(schema.messages.id, message.id));
+    },
+    async saveRoom(room) {
+      await migrated;
+      const row = toRoomRow(room);
+      await db.insert(schema.rooms).values(row)
+        .onConflictDoUpdate({ target: schema.rooms.id, set: row });
+    },
+    async deleteRoom(roomId) {
+      await migrated;
+      await db.delete(schema.roomInvites).where(eq(schema.roomInvites.roomId, roomId));
+      await db.delete(schema.rooms).where(eq(schema.rooms.id, roomId));
+    },
+    async saveRoomInvite(invite) {
+      await migrated;
+      await db.insert(schema.roomInvites).values(invite);
+    },
+    async deleteRoomInvites(roomId) {
+      await migrated;
+      await db.delete(schema.roomInvites).where(eq(schema.roomInvites.roomId, roomId));
+    },
+    async saveFileTransfer(transfer) {
+      await migrated;
+      const row = {
+        ...transfer,
+        recipients: transfer.recipients ?? null,
+        roomId: transfer.roomId ?? null,
+        keyVersion: transfer.keyVersion ?? null,
+        signature: transfer.signature ?? null,
+      };
+      await db.insert(schema.fileTransfers).values(row)
+        .onConflictDoUpdate({ target: schema.fileTransfers.id, set: row });
+    },
+    async saveFileChunk(transferId, index, chunk) {
+      await migrated;
+      const data = Buffer.from(chunk.data.buffer, chunk.data.byteOffset, chunk.data.byteLength);
+      await db.insert(schema.fileChunks).values({ transferId, index, data, nonce: chunk.nonce })
+        .onConflictDoUpdate({
+          target: [schema.fileChunks.transferId, schema.fileChunks.index],
+          set: { data, nonce: chunk.nonce },
+        });
+    },
+    async enqueueKeyUpdate(targetUserId, update) {
+      await migrated;
+      await db.insert(schema.keyUpdates).values({ targetUserId, data: update });
+    },
+    async clearKeyUpdates(targetUserId) {
+      await migrated;
+      await db.delete(schema.keyUpdates).where(eq(schema.keyUpdates.targetUserId, targetUserId));
+    },
+    async saveIdentityKeys(keys) {
+      await migrated;
+      const row = { ...keys, signingKeyJwk: keys.signingKeyJwk ?? null };
+      await db.insert(schema.identityKeys).values(row)
+        .onConflictDoUpdate({ target: schema.identityKeys.userId, set: row });
+    },
+    async saveAccount(account) {
+      await migrated;
+      await db.insert(schema.accounts).values(account)
+        .onConflictDoUpdate({ target: schema.accounts.id, set: account });
+    },
+    async saveSession(session) {
+      await migrated;
+      await db.insert(schema.sessions).values(session).onConflictDoNothing();
+    },
+    async deleteSession(tokenHash) {
+      await migrated;
+      await db.delete(schema.sessions).where(eq(schema.sessions.tokenHash, tokenHash));
+    },
+    async saveReceipt(receipt) {
+      await migrated;
+      await db.insert(schema.receipts).values(receipt)
+        .onConflictDoUpdate({ target: schema.receipts.userId, set: receipt });
+    },
+  };
+}
+
+const PERSISTENCE_KEY = '__lanhubPersistence';
+
+type PersistenceHolder = { driver: StorageDriver; hydrated: Promise<void>; failed: boolean };
+
+const createDriverFromEnv = (): StorageDriver => {
+  const mode = process.env.LANHUB_STORAGE || 'sqlite';
+  if (mode === 'memory') return createMemoryDriver();
+  if (mode !== 'sqlite') {
+    console.warn(`Unknown LANHUB_STORAGE "${mode}", falling back to sqlite`);
+  }
+  return createSqliteDriver(process.env.LANHUB_DB_URL || 'file:data/lanhub.db');
+};
+
+// Load persisted rows into the in-memory maps (once per process). The maps
+// are refilled from scratch, so a retry after a failed load starts clean.
+async function hydrate(driver: StorageDriver) {
+  const state = getServerState();
+  const snapshot = await driver.load(HOT_MESSAGES_PER_ROOM);
+  for (const map of [state.rooms, state.fileTransfers, state.keyUpdates, state.identityKeys, state.accounts, state.sessions, state.receipts, state.roomInvites]) {
+    map.clear();
+  }
+  state.messageSeq = Math.max(state.messageSeq, snapshot.lastSeq);
+  state.messageHistory = snapshot.messages;
+  for (const r of snapshot.rooms) state.rooms.set(r.id, r);
+  for (const t of snapshot.fileTransfers) state.fileTransfers.set(t.id, t);
+  for (const [userId, queue] of snapshot.keyUpdates) state.keyUpdates.set(userId, queue);
+  for (const k of snapshot.identityKeys) state.identityKeys.set(k.userId, k);
+  for (const a of snapshot.accounts) state.accounts.set(a.id, a);
+  for (const s of snapshot.sessions) state.sessions.set(s.tokenHash, s);
+  for (const r of snapshot.receipts) state.receipts.set(r.userId, r);
+  for (const i of snapshot.roomInvites) state.roomInvites.set(i.tokenHash, i);
+}
+
+// A failed load rejects `hydrated` and is marked for a retry
+const startHydration = (holder: PersistenceHolder) => {
+  holder.failed = false;
+  holder.hydrated = hydrate(holder.driver).catch((e) => {
+    console.error('Failed to load persisted server state:', e);
+    holder.failed = true;
+    throw e;
+  });
+  // Callers of ensureHydrated see the rejection; nobody else has to
+  holder.hydrated.catch(() => {});
+};
+
+const getHolder = (): PersistenceHolder => {
+  const g = globalThis as typeof globalThis & { [PERSISTENCE_KEY]?: PersistenceHolder };
+  if (!g[PERSISTENCE_KEY]) {
+    const holder: PersistenceHolder = { driver: createDriverFromEnv(), hydrated: Promise.resolve(), failed: false };
+    startHydration(holder);
+    g[PERSISTENCE_KEY] = holder;
+  }
+  return g[PERSISTENCE_KEY]!;
+};
+
+export const getPersistence = (): StorageDriver => getHolder().driver;
+
+// Resolve once persisted state has been loaded into memory. Rejects while it
+// cannot be loaded (each call after a failure tries again), so no request
+// runs against, or writes over, an empty state.
+export const ensureHydrated = (): Promise<void> => {
+  const holder = getHolder();
+  if (holder.failed) startHydration(holder);
+  return holder.hydrated;
+};
+
+// For route handlers: null once persisted state is loaded, otherwise a JSON
+// 503 so clients retry instead of parsing an error page
+export const refuseUntilHydrated = async (): Promise<Response | null> => {
+  try {
+    await ensureHydrated();
+    return null;
+  } catch {
+    return Response.json({ error: 'Server is still loading its data, try again shortly' }, { status: 503 });
+  }
+};
@@ -0,0 +1,409 @@
+/*
+  Wire protocol of POST /api/ws (WebSocket request frames are relayed to it).
+  - requestSchema: union discriminated on `type`, one payload schema per action.
+    Unknown keys are stripped, so only listed fields reach server state.
+  - responseSchemas: success body per action; ApiResponse<T> is its type.
+  - Failures carry ApiError with a 4xx/5xx status. Invalid requests get 400
+    with `field` naming the first offending path (e.g. "payload.index").
+  - register_user is the handshake: both sides announce PROTOCOL_VERSION and
+    their capabilities, and refuse peers older than their minimum.
+  Shared by src/app/api/ws/route.ts and the client (src/lib/api-client.ts).
+*/
+import { z } from 'zod';
+
+// v1: unversioned clients (ids in payloads, no sessions). v2: session-bound, schema-validated.
+export const PROTOCOL_VERSION = 2;
+// Oldest client the server serves, and oldest server the client talks to
+export const MIN_CLIENT_PROTOCOL_VERSION = 2;
+export const MIN_SERVER_PROTOCOL_VERSION = 2;
+
+// Optional features a side may support. Only server-visible features are listed:
+// the server stores/relays their fields, so clients must not use them otherwise.
+export const CAPABILITIES = ['per-room-keys', 'key-rotation', 'signatures', 'sender-keys', 'history-paging', 'threads', 'reactions', 'edits', 'receipts', 'typing', 'direct-messages', 'resumable-files', 'binary-chunks', 'room-invites', 'key-directory'] as const;
+export type Capability = (typeof CAPABILITIES)[number];
+// Features this client cannot work without
+export const REQUIRED_SERVER_CAPABILITIES: Capability[] = ['per-room-keys'];
+
+// Largest page fetch_history returns
+export const HISTORY_PAGE_MAX = 100;
+// How long a typing signal lasts unless renewed by set_typing
+export const TYPING_TTL_MS = 6000;
+// Largest file chunk (before encryption), and the chunk uploads one account
+// may have in flight (being stored); beyond that the server answers 429
+export const MAX_CHUNK_SIZE = 1024 * 1024;
+export const MAX_CHUNK_UPLOADS = 16;
+// A sealed chunk adds the 16-byte AES-GCM tag
+export const MAX_SEALED_CHUNK_SIZE = MAX_CHUNK_SIZE + 16;
+
+// Binary chunk transport (capability binary-chunks): PUT and GET the raw
+// chunk at chunkPath(); its base64 nonce ('' when plaintext) travels in
+// CHUNK_NONCE_HEADER. The JSON actions upload_chunk/download_file_chunk stay.
+export const CHUNK_NONCE_HEADER = 'X-Chunk-Nonce';
+export const TOTAL_CHUNKS_HEADER = 'X-Total-Chunks';
+export const chunkPath = (transferId: string, index: number) =>
+  `/api/files/${encodeURIComponent(transferId)}/chunks/${index}`;
+
+const id = z.string().min(1).max(200);
+const count = z.number().int().nonnegative();
+const jwk = z.custom<JsonWebKey>(
+  (v) => typeof v === 'object' && v !== null && !Array.isArray(v),
+  'Expected a JWK object'
+);
+
+// ---- Shared objects ----
+
+export const wireMessageSchema = z.object({
+  id,
+  senderId: id,
+  senderName: z.string(),
+  content: z.string(), // plaintext or base64 ciphertext when enc=true
+  timestamp: z.number(),
+  roomId: id.optional(),
+  type: z.enum(['text', 'file', 'system', 'reaction', 'edit', 'delete']),
+  seq: count.optional(),
+  enc: z.boolean().optional(),
+  nonce: z.string().optional(),
+  alg: z.literal('aes-256-gcm').optional(),
+  keyVersion: count.optional(),
+  chainId: z.string().optional(),
+  chainIndex: count.optional(),
+  bodyFormat: z.literal('json').optional(),
+  // Thread fields of plaintext messages (encrypted ones carry them in the body)
+  replyTo: id.optional(),
+  threadRootId: id.optional(),
+  targetId: id.optional(), // edit/delete: the message they change
+  deleted: z.boolean().optional(), // tombstone left by a delete
+  sig: z.string().optional(),
+});
+export type WireMessage = z.infer<typeof wireMessageSchema>;
+
+// Presence entry: account fields plus the keys the user published
+export const onlineUserSchema = z.object({
+  id,
+  username: z.string(),
+  displayName: z.string(),
+  isAdmin: z.boolean(),
+  avatar: z.string().optional(),
+  status: z.enum(['online', 'away', 'offline']),
+  lastSeen: z.number(),
+  publicKeyJwk: jwk.optional(),
+  signingKeyJwk: jwk.optional(),
+  protocolVersion: count.optional(),
+  capabilities: z.array(z.string()).optional(),
+});
+export type OnlineUser = z.infer<typeof onlineUserSchema>;
+
+export const deviceSchema = z.object({
+  id,
+  name: z.string().min(1).max(100),
+  type: z.enum(['desktop', 'mobile', 'tablet', 'other']),
+  ipAddress: z.string(),
+  userId: id.optional(),
+  isOnline: z.boolean(),
+  lastSeen: z.number(),
+});
+export type WireDevice = z.infer<typeof deviceSchema>;
+
+export const roomSchema = z.object({
+  id,
+  name: z.string(),
+  participants: z.array(id),
+  createdBy: id,
+  createdAt: z.number(),
+  isPublic: z.boolean(),
+  admins: z.array(id).optional(),
+  keyVersion: count.optional(),
+  rekeyNeeded: z.boolean().optional(),
+  isDirect: z.boolean().optional(),
+});
+export type WireRoom = z.infer<typeof roomSchema>;
+
+// Key envelopes (see RoomKeyEnvelope / SenderKeyEnvelope in crypto.ts); the
+// server only relays them
+const envelopeBase = { epk: jwk, saltB64: z.string(), nonceB64: z.string(), ctB64: z.string(), roomId: id };
+
+export const keyEnvelopeSchema = z.union([
+  // First: a room-key envelope would also match after stripping `kind`
+  z.object({ ...envelopeBase, kind: z.literal('sender_key'), senderId: id, chainId: z.string(), iteration: count, sig: z.string().optional() }),
+  z.object({ ...envelopeBase, keyVersion: count, senderId: id.optional(), sig: z.string().optional() }),
+]);
+
+export const keyUpdateSchema = z.object({
+  fromUserId: id,
+  envelope: keyEnvelopeSchema,
+  timestamp: z.number(),
+});
+export type KeyUpdate = z.infer<typeof keyUpdateSchema>;
+
+const transferMetaSchema = z.object({
+  id,
+  senderId: id,
+  senderName: z.string(),
+  fileName: z.string(),
+  fileSize: count,
+  totalChunks: count,
+});
+
+export const fileAnnouncementSchema = transferMetaSchema.extend({
+  recipients: z.array(id).optional(),
+  createdAt: z.number(),
+  completed: z.boolean(),
+});
+
+export const transferListingSchema = transferMetaSchema.extend({
+  roomId: id.optional(),
+  keyVersion: count.optional(),
+  signature: z.string().optional(),
+  completed: z.boolean(),
+  availableChunks: z.array(count),
+});
+export type TransferListing = z.infer<typeof transferListingSchema>;
+
+// How far a user got: messages delivered (heartbeat lastSeq, all rooms) and
+// read per room id ('global' for messages without a room)
+export const receiptSchema = z.object({
+  userId: id,
+  deliveredSeq: count,
+  read: z.record(z.string(), count),
+});
+export type Receipt = z.infer<typeof receiptSchema>;
+
+// Someone composing in a room (global when roomId is absent); never stored
+export const typingSignalSchema = z.object({
+  userId: id,
+  roomId: id.optional(),
+});
+export type TypingSignal = z.infer<typeof typingSignalSchema>;
+
+export const serverInfoSchema = z.object({
+  protocolVersion: count,
+  minProtocolVersion: count,
+  capabilities: z.array(z.string()), // unknown names from newer servers are kept
+});
+export type ServerInfo = z.infer<typeof serverInfoSchema>;
+
+// ---- Requests ----
+
+const empty = z.object({});
+
+// Ids of the caller (senderId, createdBy, ...) are taken from the session,
+// so payloads do not carry them
+export const requestSchemas = {
+  register_user: z.object({
+    // Missing on v1 clients
+    protocolVersion: count.optional(),
+    capabilities: z.array(z.string()).optional(),
+    avatar: z.string().optional(),
+    publicKeyJwk: jwk.optional(),
+    signingKeyJwk: jwk.optional(),
+  }),
+  unregister_user: empty,
+  heartbeat: z.object({ lastSeq: count.default(0) }),
+  get_state: empty,
+  // Everything up to seq in the room (global when roomId is absent) was seen
+  mark_read: z.object({ roomId: id.optional(), seq: count }),
+  // Start (renew every few seconds) or stop the caller's typing signal
+  set_typing: z.object({ roomId: id.optional(), typing: z.boolean() }),
+  // Messages of one room (global when roomId is absent) with seq < before, newest page first
+  fetch_history: z.object({
+    roomId: id.optional(),
+    before: count.optional(),
+    limit: z.number().int().min(1).max(HISTORY_PAGE_MAX).default(50),
+  }),
+  create_room: z.object({
+    id,
+    name: z.string().trim().min(1).max(100),
+    isPublic: z.boolean().optional(),
+    participants: z.array(id).optional(),
+    admins: z.array(id).optional(),
+  }),
+  update_room: z.object({
+    roomId: id,
+    addParticipant: id.optional(),
+    removeParticipant: id.optional(),
+    addAdmin: id.optional(),
+    removeAdmin: id.optional(),
+    transferOwnerTo: id.optional(),
+  }),
+  // Private rooms need an unexpired token from create_invite
+  join_room: z.object({ roomId: id, token: z.string().max(200).optional() }),
+  // Issue an invite token to a private room (owner or room admins)
+  create_invite: z.object({ roomId: id }),
+  // Invalidate every outstanding invite token of a room (owner or room admins)
+  revoke_invites: z.object({ roomId: id }),
+  // Open (creating on first use) the direct message room with another account
+  open_direct: z.object({ userId: id }),
+  leave_room: z.object({ roomId: id }),
+  rotate_room_key: z.object({ roomId: id, fromVersion: count }),
+  delete_room: z.object({ roomId: id }),
+  send_message: wireMessageSchema
+    .omit({ seq: true, deleted: true })
+    .partial({ senderId: true, senderName: true, timestamp: true })
+    .refine(m => (m.type === 'edit' || m.type === 'delete') === !!m.targetId, {
+      message: 'targetId is required for edit and delete, and only allowed there',
+      path: ['targetId'],
+    }),
+  register_device: deviceSchema.omit({ userId: true, isOnline: true, lastSeen: true }),
+  key_update: z.object({ targetUserId: id, envelope: keyEnvelopeSchema }),
+  list_identity_keys: empty,
+  init_file_transfer: z.object({
+    id,
+    fileName: z.string().min(1).max(255),
+    fileSize: count,
+    totalChunks: z.number().int().positive(),
+    recipients: z.array(id).optional(),
+    roomId: id.optional(),
+    keyVersion: count.optional(),
+    signature: z.string().optional(),
+  }),
+  upload_chunk: z.object({
+    transferId: id,
+    index: count,
+    totalChunks: z.number().int().positive().optional(),
+    // base64 of a sealed chunk
+    data: z.string().max(Math.ceil(MAX_SEALED_CHUNK_SIZE / 3) * 4),
+    nonce: z.string(),
+  }),
+  list_file_transfers: empty,
+  download_file_chunk: z.object({ transferId: id, index: count }),
+} as const;
+
+export type ActionType = keyof typeof requestSchemas;
+
+const action = <T extends ActionType>(type: T) => z.object({ type: z.literal(type), payload: requestSchemas[type] });
+
+export const requestSchema = z.discriminatedUnion('type', [
+  action('register_user'),
+  action('unregister_user'),
+  action('heartbeat'),
+  action('get_state'),
+  action('mark_read'),
+  action('set_typing'),
+  action('fetch_history'),
+  action('create_room'),
+  action('open_direct'),
+  action('update_room'),
+  action('join_room'),
+  action('create_invite'),
+  action('revoke_invites'),
+  action('leave_room'),
+  action('rotate_room_key'),
+  action('delete_room'),
+  action('send_message'),
+  action('register_device'),
+  action('key_update'),
+  action('list_identity_keys'),
+  action('init_file_transfer'),
+  action('upload_chunk'),
+  action('list_file_transfers'),
+  action('download_file_chunk'),
+]);
+export type ApiRequest = z.infer<typeof requestSchema>;
+
+// What callers pass (before defaults are applied)
+export type ActionPayload<T extends ActionType> = z.input<(typeof requestSchemas)[T]>;
+
+// ---- Responses ----
+
+const ok = z.object({ success: z.literal(true) });
+const withRooms = ok.extend({ rooms: z.array(roomSchema) });
+
+export const responseSchemas = {
+  register_user: ok.extend({
+    server: serverInfoSchema,
+    onlineUsers: z.array(onlineUserSchema),
+    messages: z.array(wireMessageSchema),
+  }),
+  unregister_user: ok,
+  heartbeat: ok.extend({
+    onlineUsers: z.array(onlineUserSchema),
+    newMessages: z.array(wireMessageSchema),
+    lastSeq: count,
+    keyUpdates: z.array(keyUpdateSchema),
+    fileAnnouncements: z.array(fileAnnouncementSchema),
+    devices: z.array(deviceSchema),
+    rooms: z.array(roomSchema),
+    // Read positions are limited to rooms the caller can read; absent from
+    // servers without the 'receipts' capability
+    receipts: z.array(receiptSchema).default([]),
+    // Other users typing in rooms the caller can read (same capability rule, 'typing')
+    typing: z.array(typingSignalSchema).default([]),
+  }),
+  get_state: ok.extend({
+    server: serverInfoSchema,
+    onlineUsers: z.array(onlineUserSchema),
+    messages: z.array(wireMessageSchema),
+    lastSeq: count,
+    devices: z.array(deviceSchema),
+    rooms: z.array(roomSchema),
+  }),
+  mark_read: ok.extend({ receipt: receiptSchema }),
+  set_typing: ok,
+  // Ascending by seq; hasMore is false once the room's first message is included
+  fetch_history: ok.extend({
+    messages: z.array(wireMessageSchema),
+    hasMore: z.boolean(),
+  }),
+  create_room: withRooms,
+  update_room: withRooms.extend({ room: roomSchema }),
+  join_room: withRooms.extend({ room: roomSchema }),
+  create_invite: ok.extend({ token: z.string(), expiresAt: z.number() }),
+  revoke_invites: ok.extend({ revoked: count }),
+  open_direct: withRooms.extend({ room: roomSchema }),
+  leave_room: withRooms,
+  rotate_room_key: withRooms.extend({ keyVersion: count }),
+  // Deleting an unknown room succeeds without a room list
+  delete_room: ok.extend({ rooms: z.array(roomSchema).optional() }),
+  send_message: ok.extend({ message: wireMessageSchema }),
+  register_device: ok.extend({ devices: z.array(deviceSchema) }),
+  key_update: ok,
+  // Last identity keys every account registered, online or not
+  list_identity_keys: ok.extend({
+    keys: z.array(z.object({ userId: id, publicKeyJwk: jwk, signingKeyJwk: jwk.optional() })),
+  }),
+  init_file_transfer: ok,
+  upload_chunk: ok.extend({ received: count }),
+  list_file_transfers: ok.extend({ transfers: z.array(transferListingSchema) }),
+  download_file_chunk: ok.extend({ index: count, data: z.string(), nonce: z.string() }),
+} satisfies Record<ActionType, z.ZodType>;
+
+export type ApiResponse<T extends ActionType> = z.infer<(typeof responseSchemas)[T]>;
+
+export const apiErrorSchema = z.object({
+  error: z.string(),
+  field: z.string().optional(), // first invalid path of a 400
+  issues: z.array(z.object({ path: z.string(), message: z.string() })).optional(),
+  keyVersion: count.optional(), // current epoch on a 409 from rotate_room_key
+  server: serverInfoSchema.optional(), // on a 426: what the server speaks
+});
+export type ApiError = z.infer<typeof apiErrorSchema>;
+
+// 400 body for a request that failed requestSchema
+export function invalidRequestError(error: z.ZodError): ApiError {
+  const issues = error.issues.map(i => ({ path: i.path.map(String).join('.'), message: i.message }));
+  return { error: `Invalid request: ${issues[0]?.path || 'body'}: ${issues[0]?.message ?? 'invalid'}`, field: issues[0]?.path, issues };
+}
+
+// What this build's server announces in the handshake
+export const SERVER_INFO: ServerInfo = {
+  protocolVersion: PROTOCOL_VERSION,
+  minProtocolVersion: MIN_CLIENT_PROTOCOL_VERSION,
+  capabilities: [...CAPABILITIES],
+};
+
+// Message for the 426 sent to clients older than MIN_CLIENT_PROTOCOL_VERSION
+export const clientTooOldMessage = (clientVersion: number) =>
+  `This app speaks protocol v${clientVersion}, the server needs v${MIN_CLIENT_PROTOCOL_VERSION} or newer. Reload the page to update.`;
+
+// Why this client cannot work with `server`, or null when compatible
+export function serverIncompatibility(server: ServerInfo): string | null {
+  if (server.protocolVersion < MIN_SERVER_PROTOCOL_VERSION) {
+    return `The server speaks protocol v${server.protocolVersion}, this app needs v${MIN_SERVER_PROTOCOL_VERSION} or newer. Ask the server admin to upgrade LAN Hub.`;
+  }
+  if (PROTOCOL_VERSION < server.minProtocolVersion) return clientTooOldMessage(PROTOCOL_VERSION);
+  const missing = REQUIRED_SERVER_CAPABILITIES.filter(c => !server.capabilities.includes(c));
+  if (missing.length > 0) {
+    return `The server lacks required features (${missing.join(', ')}). Ask the server admin to upgrade LAN Hub.`;
+  }
+  return null;
+}
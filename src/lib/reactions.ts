@@ -0,0 +1,48 @@
+/*
+  Emoji reactions. A reaction is a message of type 'reaction' in the target's
+  room, so the server sequences, stores and pages it like any message (and
+  it is encrypted the same way). Its content is a ReactionEvent; the latest
+  event per (message, emoji, user) decides whether the reaction stands.
+*/
+import type { Message } from '@/types';
+
+export const REACTION_EMOJIS = ['👍', '❤️', '😂', '🎉', '😮', '😢'] as const;
+
+export interface ReactionEvent {
+  messageId: string;
+  emoji: string;
+  active: boolean; // false withdraws an earlier reaction
+}
+
+// messageId -> emoji -> ids of users currently reacting with it
+export type ReactionSummary = Record<string, Record<string, string[]>>;
+
+export function parseReaction(message: Message): ReactionEvent | null {
+  if (message.type !== 'reaction' || message.enc) return null;
+  try {
+    const e = JSON.parse(message.content) as Partial<ReactionEvent>;
+    if (typeof e.messageId !== 'string' || typeof e.emoji !== 'string' || typeof e.active !== 'boolean') return null;
+    if (!e.emoji || e.emoji.length > 16) return null;
+    return { messageId: e.messageId, emoji: e.emoji, active: e.active };
+  } catch {
+    return null;
+  }
+}
+
+// Replay reaction events in sequence order (our unsent ones last)
+export function aggregateReactions(messages: Message[]): ReactionSummary {
+  const latest = new Map<string, { event: ReactionEvent; userId: string }>();
+  const events = messages
+    .filter(m => m.type === 'reaction')
+    .sort((a, b) => (a.seq ?? Infinity) - (b.seq ?? Infinity) || a.timestamp - b.timestamp);
+  for (const m of events) {
+    const event = parseReaction(m);
+    if (event) latest.set(JSON.stringify([event.messageId, event.emoji, m.senderId]), { event, userId: m.senderId });
+  }
+  const summary: ReactionSummary = {};
+  for (const { event, userId } of latest.values()) {
+    if (!event.active) continue;
+    ((summary[event.messageId] ??= {})[event.emoji] ??= []).push(userId);
+  }
+  return summary;
+}
@@ -0,0 +1,58 @@
+/*
+  In-process push hub shared by the /api/ws route handler and the custom
+  server (server.mjs) that owns the WebSocket connections.
+  - State lives on globalThis so every bundle (route handlers, custom server)
+    sees the same listener set.
+  - Events are fire-and-forget; clients that miss one catch up through the
+    heartbeat delta (newMessages since lastSeq).
+*/
+
+import type { OnlineUser, Receipt, TypingSignal, WireDevice, WireMessage, WireRoom } from '@/lib/protocol';
+
+// Each event type with the payload clients receive
+export type PushEvent = (
+  | { type: 'new_message'; payload: WireMessage }
+  | { type: 'user_online'; payload: { userId: string; user: OnlineUser; onlineUsers: OnlineUser[] } }
+  | { type: 'user_offline'; payload: { userId: string; onlineUsers: OnlineUser[] } }
+  | { type: 'device_online'; payload: { devices: WireDevice[] } }
+  | { type: 'rooms_updated'; payload: { rooms: WireRoom[] } }
+  | { type: 'key_update'; payload: { fromUserId: string } }
+  | { type: 'receipts_updated'; payload: { receipt: Receipt } }
+  | { type: 'typing'; payload: TypingSignal & { typing: boolean } }
+  // Internal, never forwarded: a session of the audience ended, transports
+  // close the connections whose session is gone
+  | { type: 'session_ended'; payload: Record<string, never> }
+) & {
+  // Restrict delivery to these user ids (undefined => everyone)
+  audience?: string[];
+};
+
+type Listener = (event: PushEvent) => void;
+
+const HUB_KEY = '__lanhubRealtime';
+
+type Hub = { listeners: Set<Listener> };
+
+const getHub = (): Hub => {
+  const g = globalThis as typeof globalThis & { [HUB_KEY]?: Hub };
+  if (!g[HUB_KEY]) g[HUB_KEY] = { listeners: new Set() };
+  return g[HUB_KEY]!;
+};
+
+export function publish(event: PushEvent) {
+  for (const listener of getHub().listeners) {
+    try {
+      listener(event);
+    } catch (e) {
+      console.error('Realtime listener error:', e);
+    }
+  }
+}
+
+export function subscribe(listener: Listener): () => void {
+  const hub = getHub();
+  hub.listeners.add(listener);
+  return () => {
+    hub.listeners.delete(listener);
+  };
+}
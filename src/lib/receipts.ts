@@ -0,0 +1,37 @@
+/*
+  Delivery and read receipts. Each user has one Receipt on the server:
+  deliveredSeq (what their heartbeat has fetched, all rooms) and a read seq
+  per room. Positions only move forward, so merging keeps the maximum.
+*/
+import { GLOBAL_ROOM_ID } from '@/lib/crypto';
+import type { Receipt } from '@/lib/protocol';
+import type { Message } from '@/types';
+
+// pending: not sequenced yet; sent: on the server; delivered/read: by everyone in the audience
+export type DeliveryStatus = 'pending' | 'sent' | 'delivered' | 'read';
+
+export const receiptKey = (roomId?: string) => roomId ?? GLOBAL_ROOM_ID;
+
+export function mergeReceipt(prev: Receipt | undefined, next: Receipt): Receipt {
+  if (!prev) return next;
+  const read = { ...prev.read };
+  for (const [key, seq] of Object.entries(next.read)) read[key] = Math.max(read[key] ?? 0, seq);
+  return { userId: next.userId, deliveredSeq: Math.max(prev.deliveredSeq, next.deliveredSeq), read };
+}
+
+export const readSeq = (receipt: Receipt | undefined, roomId?: string) => receipt?.read[receiptKey(roomId)] ?? 0;
+
+// Users (other than the sender) among `audience` who read up to the message
+export const seenBy = (receipts: Record<string, Receipt>, message: Message, audience: string[]) =>
+  message.seq === undefined
+    ? []
+    : audience.filter(uid => uid !== message.senderId && readSeq(receipts[uid], message.roomId) >= message.seq!);
+
+export function deliveryStatus(receipts: Record<string, Receipt>, message: Message, audience: string[]): DeliveryStatus {
+  if (message.seq === undefined) return 'pending';
+  const others = audience.filter(uid => uid !== message.senderId);
+  if (others.length === 0) return 'sent';
+  if (seenBy(receipts, message, others).length === others.length) return 'read';
+  if (others.every(uid => (receipts[uid]?.deliveredSeq ?? 0) >= message.seq!)) return 'delivered';
+  return 'sent';
+}
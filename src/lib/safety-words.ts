@@ -0,0 +1,36 @@
+// 256 short, distinct words (one per byte) used to read safety numbers aloud.
+// Order is part of the format: changing it changes every user's word list.
+export const SAFETY_WORDS: readonly string[] = [
+  'acid', 'acorn', 'actor', 'agent', 'album', 'alert', 'amber', 'angle',
+  'ankle', 'apple', 'apron', 'arena', 'armor', 'arrow', 'aspen', 'atlas',
+  'attic', 'award', 'bacon', 'badge', 'bagel', 'baker', 'bamboo', 'banjo',
+  'barn', 'basil', 'basin', 'beach', 'beacon', 'bean', 'bear', 'beetle',
+  'bell', 'bench', 'berry', 'bison', 'blade', 'blaze', 'bloom', 'board',
+  'boat', 'bolt', 'boot', 'bottle', 'bread', 'brick', 'bridge', 'brook',
+  'broom', 'brush', 'bucket', 'bugle', 'cabin', 'cable', 'cactus', 'camel',
+  'canal', 'candle', 'canoe', 'canyon', 'carbon', 'cargo', 'carrot', 'castle',
+  'cedar', 'cello', 'chalk', 'charm', 'cheese', 'cherry', 'chess', 'chief',
+  'cider', 'citrus', 'clay', 'cliff', 'clock', 'cloud', 'clover', 'cobalt',
+  'cocoa', 'comet', 'coral', 'cotton', 'crane', 'crater', 'crayon', 'cricket',
+  'crown', 'cube', 'cycle', 'daisy', 'delta', 'denim', 'desert', 'dolphin',
+  'domino', 'donkey', 'dragon', 'drum', 'eagle', 'easel', 'echo', 'eclipse',
+  'elbow', 'ember', 'engine', 'falcon', 'fern', 'ferry', 'fiddle', 'figure',
+  'flame', 'flint', 'flute', 'forest', 'fossil', 'fox', 'frost', 'fudge',
+  'galaxy', 'garlic', 'gecko', 'geyser', 'ginger', 'glacier', 'globe', 'glove',
+  'goblet', 'granite', 'grape', 'gravel', 'guitar', 'hammer', 'harbor', 'hazel',
+  'helmet', 'heron', 'honey', 'hornet', 'iceberg', 'igloo', 'indigo', 'iris',
+  'island', 'ivory', 'jacket', 'jaguar', 'jasmine', 'jelly', 'jungle', 'kayak',
+  'kettle', 'kiwi', 'koala', 'ladder', 'lagoon', 'lantern', 'lemon', 'lentil',
+  'lily', 'linen', 'lizard', 'lobster', 'locket', 'lotus', 'magnet', 'mango',
+  'maple', 'marble', 'meadow', 'melon', 'meteor', 'mint', 'mirror', 'mosaic',
+  'motor', 'muffin', 'nectar', 'needle', 'nickel', 'noodle', 'nutmeg', 'oasis',
+  'ocean', 'olive', 'onion', 'opal', 'orbit', 'orchid', 'otter', 'oyster',
+  'paddle', 'panda', 'paper', 'parrot', 'pasta', 'peanut', 'pebble', 'pepper',
+  'piano', 'pickle', 'pillow', 'pine', 'pixel', 'planet', 'plum', 'pocket',
+  'polar', 'pony', 'poppy', 'potato', 'prism', 'pumpkin', 'puzzle', 'quartz',
+  'quill', 'rabbit', 'radar', 'radio', 'raven', 'reef', 'ribbon', 'rocket',
+  'saddle', 'salmon', 'sapphire', 'scarf', 'shadow', 'shell', 'silver', 'sketch',
+  'sleigh', 'spider', 'spruce', 'squid', 'statue', 'summit', 'sunset', 'swan',
+  'tablet', 'tiger', 'timber', 'tomato', 'topaz', 'torch', 'tulip', 'tundra',
+  'turtle', 'umbrella', 'velvet', 'violin', 'walnut', 'whale', 'willow', 'zebra',
+];
@@ -0,0 +1,105 @@
+/*
+  Local full-text search over decrypted messages and file names.
+  The server only holds ciphertext, so the index lives in this browser:
+  IndexedDB, one database per account. Messages are added as they are
+  decrypted; edits replace their entry and deletes remove it.
+  - Text is split into lowercase words (a multiEntry index); a query matches
+    documents that hold every query word as a word prefix.
+  - Filters: room (GLOBAL_ROOM_ID for global), sender and a time range.
+*/
+import { GLOBAL_ROOM_ID } from '@/lib/crypto';
+import { completed, openDatabase, requested } from '@/lib/idb';
+import type { Message } from '@/types';
+
+const DB_VERSION = 1;
+const STORE = 'docs';
+const MAX_RESULTS = 50;
+
+export interface SearchDoc {
+  id: string; // message id
+  kind: 'message' | 'file';
+  roomKey: string; // room id, GLOBAL_ROOM_ID for global
+  senderId: string;
+  senderName: string;
+  timestamp: number;
+  text: string; // content, or the file name
+  words: string[];
+}
+
+export interface SearchFilters {
+  roomKey?: string;
+  senderId?: string;
+  from?: number; // timestamps, inclusive
+  to?: number;
+}
+
+export const tokenize = (text: string) =>
+  Array.from(new Set(text.toLowerCase().split(/[^\p{L}\p{N}]+/u).filter(Boolean)));
+
+// Searchable form of a timeline message, or null (encrypted, deleted, events)
+export function toSearchDoc(m: Message): SearchDoc | null {
+  if (m.enc || m.deleted || (m.type !== 'text' && m.type !== 'file')) return null;
+  let kind: SearchDoc['kind'] = 'message';
+  let text = m.content;
+  try {
+    const meta = JSON.parse(m.content);
+    if (meta && meta.transferId && meta.fileName) {
+      kind = 'file';
+      text = String(meta.fileName);
+    }
+  } catch {}
+  if (!text.trim()) return null;
+  return {
+    id: m.id,
+    kind,
+    roomKey: m.roomId ?? GLOBAL_ROOM_ID,
+    senderId: m.senderId,
+    senderName: m.senderName,
+    timestamp: m.timestamp,
+    text,
+    words: tokenize(text),
+  };
+}
+
+const openIndex = (userId: string) =>
+  openDatabase(`lanhub_search_${userId}`, DB_VERSION, db => {
+    const store = db.createObjectStore(STORE, { keyPath: 'id' });
+    store.createIndex('words', 'words', { multiEntry: true });
+  });
+
+// Add or replace the entries of these messages; deleted or unreadable ones are dropped
+export async function updateSearchIndex(userId: string, messages: Message[]) {
+  if (messages.length === 0) return;
+  const tx = (await openIndex(userId)).transaction(STORE, 'readwrite');
+  const store = tx.objectStore(STORE);
+  for (const m of messages) {
+    const doc = toSearchDoc(m);
+    if (doc) store.put(doc);
+    else if (m.deleted) store.delete(m.id);
+  }
+  await completed(tx);
+}
+
+// Newest matches first
+export async function searchIndex(userId: string, query: string, filters: SearchFilters = {}): Promise<SearchDoc[]> {
+  const words = tokenize(query);
+  if (words.length === 0) return [];
+  // Scan the index for the most selective (longest) word only
+  const longest = words.reduce((a, b) => (b.length > a.length ? b : a));
+  const tx = (await openIndex(userId)).transaction(STORE, 'readonly');
+  const candidates: SearchDoc[] = await requested(tx.objectStore(STORE).index('words').getAll(IDBKeyRange.bound(longest, `${longest}\uffff`)));
+  const seen = new Set<string>();
+  return candidates
+    .filter(doc => {
+      // A document appears once per word sharing the prefix
+      if (seen.has(doc.id)) return false;
+      seen.add(doc.id);
+      if (filters.roomKey !== undefined && doc.roomKey !== filters.roomKey) return false;
+      if (filters.senderId !== undefined && doc.senderId !== filters.senderId) return false;
+      if (filters.from !== undefined && doc.timestamp < filters.from) return false;
+      if (filters.to !== undefined && doc.timestamp > filters.to) return false;
+      return words.every(w => doc.words.some(dw => dw.startsWith(w)));
+    })
+    .sort((a, b) => b.timestamp - a.timestamp)
+    .slice(0, MAX_RESULTS);
+}
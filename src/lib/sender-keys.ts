@@ -0,0 +1,127 @@
+/*
+  Sender-key state (Signal-style groups), kept in localStorage per account.
+  - Own chains: one per room, ratcheted once per sent message. A fresh chain
+    starts when the room's key epoch moves on (members removed).
+  - Received chains: per room + sender + chainId, ratcheted as messages arrive.
+    Message keys of skipped indexes are stashed (at most MAX_SKIP) so
+    out-of-order delivery still decrypts; every key is deleted once used.
+  Mutations run through one promise queue so concurrent decrypts never
+  ratchet the same chain twice.
+*/
+import { base64ToBytes, bytesToBase64, importMessageKey, randomBytes, ratchetChainKey } from '@/lib/crypto';
+import { accountStorage } from '@/lib/local-storage';
+
+const OWN_CHAINS_STORAGE = 'lanhub_sender_chains';
+const RECEIVED_CHAINS_STORAGE = 'lanhub_sender_keys';
+// How far ahead of its chain a message may arrive (and how many skipped keys are kept)
+export const MAX_SKIP = 256;
+// Older chains of the same sender kept for late messages
+const MAX_CHAINS_PER_SENDER = 4;
+
+export interface OwnChain {
+  chainId: string;
+  chainKeyB64: string; // key for message index `iteration`
+  iteration: number;
+  epoch: number; // room key epoch the chain belongs to
+}
+
+interface ReceivedChain {
+  chainKeyB64: string;
+  iteration: number;
+  skipped: Record<number, string>; // index -> base64 message key
+  updatedAt: number;
+}
+
+// `${roomId}:${senderId}` -> chainId -> state
+type ReceivedChains = Record<string, Record<string, ReceivedChain>>;
+
+const load = <T extends object>(key: string): T => {
+  const s = accountStorage.getItem(key);
+  return s ? (JSON.parse(s) as T) : ({} as T);
+};
+const save = (key: string, value: object) => accountStorage.setItem(key, JSON.stringify(value));
+
+let queue: Promise<unknown> = Promise.resolve();
+const serialized = <T>(fn: () => Promise<T>): Promise<T> => {
+  const run = queue.then(fn, fn);
+  queue = run.catch(() => {});
+  return run;
+};
+
+export const getOwnChain = (roomId: string): OwnChain | undefined =>
+  load<Record<string, OwnChain>>(OWN_CHAINS_STORAGE)[roomId];
+
+export const getOwnChains = (): Record<string, OwnChain> => load<Record<string, OwnChain>>(OWN_CHAINS_STORAGE);
+
+// Return our chain for roomId, starting a new one when missing or from an older epoch
+export const ensureOwnChain = (roomId: string, epoch: number) => serialized(async (): Promise<{ chain: OwnChain; started: boolean }> => {
+  const chains = load<Record<string, OwnChain>>(OWN_CHAINS_STORAGE);
+  const existing = chains[roomId];
+  if (existing && existing.epoch >= epoch) return { chain: existing, started: false };
+  const chain: OwnChain = {
+    chainId: `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 10)}`,
+    chainKeyB64: bytesToBase64(randomBytes(32)),
+    iteration: 0,
+    epoch,
+  };
+  chains[roomId] = chain;
+  save(OWN_CHAINS_STORAGE, chains);
+  return { chain, started: true };
+});
+
+// Ratchet our chain one step and return the message key for the new message
+export const nextOwnMessageKey = (roomId: string) => serialized(async (): Promise<{ chainId: string; index: number; key: CryptoKey } | null> => {
+  const chains = load<Record<string, OwnChain>>(OWN_CHAINS_STORAGE);
+  const chain = chains[roomId];
+  if (!chain) return null;
+  const { messageKey, nextChainKey } = await ratchetChainKey(base64ToBytes(chain.chainKeyB64));
+  const index = chain.iteration;
+  chains[roomId] = { ...chain, chainKeyB64: bytesToBase64(nextChainKey), iteration: index + 1 };
+  save(OWN_CHAINS_STORAGE, chains);
+  return { chainId: chain.chainId, index, key: await importMessageKey(messageKey) };
+});
+
+// Store a chain received from another member; false if we already track it
+export const storeReceivedChain = (roomId: string, senderId: string, chainId: string, chainKey: Uint8Array, iteration: number) => serialized(async (): Promise<boolean> => {
+  const all = load<ReceivedChains>(RECEIVED_CHAINS_STORAGE);
+  const slot = (all[`${roomId}:${senderId}`] ??= {});
+  // A later snapshot of a chain we hold is derivable; an earlier one would only reopen consumed keys
+  if (slot[chainId]) return false;
+  slot[chainId] = { chainKeyB64: bytesToBase64(chainKey), iteration, skipped: {}, updatedAt: Date.now() };
+  const byAge = Object.entries(slot).sort(([, a], [, b]) => b.updatedAt - a.updatedAt);
+  for (const [oldId] of byAge.slice(MAX_CHAINS_PER_SENDER)) delete slot[oldId];
+  save(RECEIVED_CHAINS_STORAGE, all);
+  return true;
+});
+
+// Message key for (chainId, index) of a sender, or null if unavailable (chain
+// unknown yet, key already used, or index too far ahead). Consumes the key.
+export const takeMessageKey = (roomId: string, senderId: string, chainId: string, index: number) => serialized(async (): Promise<CryptoKey | null> => {
+  const all = load<ReceivedChains>(RECEIVED_CHAINS_STORAGE);
+  const chain = all[`${roomId}:${senderId}`]?.[chainId];
+  if (!chain) return null;
+
+  if (index < chain.iteration) {
+    const stashed = chain.skipped[index];
+    if (!stashed) return null;
+    delete chain.skipped[index];
+    save(RECEIVED_CHAINS_STORAGE, all);
+    return importMessageKey(base64ToBytes(stashed));
+  }
+  if (index - chain.iteration > MAX_SKIP) return null;
+
+  let chainKey = base64ToBytes(chain.chainKeyB64);
+  for (let i = chain.iteration; i < index; i++) {
+    const step = await ratchetChainKey(chainKey);
+    chain.skipped[i] = bytesToBase64(step.messageKey);
+    chainKey = step.nextChainKey;
+  }
+  const { messageKey, nextChainKey } = await ratchetChainKey(chainKey);
+  chain.chainKeyB64 = bytesToBase64(nextChainKey);
+  chain.iteration = index + 1;
+  chain.updatedAt = Date.now();
+  const stashedIndexes = Object.keys(chain.skipped).map(Number).sort((a, b) => a - b);
+  for (const old of stashedIndexes.slice(0, Math.max(0, stashedIndexes.length - MAX_SKIP))) delete chain.skipped[old];
+  save(RECEIVED_CHAINS_STORAGE, all);
+  return importMessageKey(messageKey);
+});
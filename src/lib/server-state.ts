@@ -0,0 +1,150 @@
+/*
+  In-memory server state shared by the /api/ws route handlers.
+  Kept on globalThis so sibling routes (e.g. the SSE stream) and dev reloads
+  see the same maps instead of a fresh copy per bundle.
+*/
+import type { KeyUpdate, OnlineUser, Receipt, WireDevice, WireMessage } from '@/lib/protocol';
+
+export interface ServerRoom {
+  id: string;
+  name: string;
+  participants: string[];
+  createdBy: string;
+  createdAt: number;
+  isPublic: boolean;
+  admins?: string[];
+  keyVersion?: number; // latest key epoch claimed via rotate_room_key
+  rekeyNeeded?: boolean; // set when participants shrink (kick/leave)
+  isDirect?: boolean; // two-member direct message room (src/lib/direct-messages.ts)
+}
+
+// Raw ciphertext (plaintext in insecure testing mode) and its base64 nonce ('' when plaintext)
+export interface StoredChunk {
+  data: Uint8Array;
+  nonce: string;
+}
+
+export interface ServerFileTransfer {
+  id: string;
+  senderId: string;
+  senderName: string;
+  fileName: string;
+  fileSize: number;
+  totalChunks: number;
+  recipients?: string[]; // undefined or empty => broadcast
+  roomId?: string; // room whose key encrypts the chunks
+  keyVersion?: number;
+  signature?: string; // sender's ECDSA signature over the manifest (opaque to the server)
+  createdAt: number;
+  completed: boolean;
+  chunks: Map<number, StoredChunk>;
+}
+
+export interface ServerAccount {
+  id: string;
+  username: string;
+  displayName: string;
+  passwordHash: string; // scrypt, salted (better-auth/crypto)
+  isAdmin: boolean;
+  createdAt: number;
+}
+
+export interface ServerSession {
+  tokenHash: string; // SHA-256 of the cookie token; the token itself is never stored
+  userId: string;
+  createdAt: number;
+  expiresAt: number;
+}
+
+export interface ServerRoomInvite {
+  tokenHash: string; // SHA-256 of the invite token; the token itself is never stored
+  roomId: string;
+  createdBy: string;
+  createdAt: number;
+  expiresAt: number;
+}
+
+// Identity keys a user last registered, so peers can wrap keys for them
+// while they are offline
+export interface ServerIdentityKeys {
+  userId: string;
+  publicKeyJwk: JsonWebKey;
+  signingKeyJwk?: JsonWebKey;
+}
+
+export interface ServerState {
+  messageHistory: WireMessage[]; // ascending by seq, at most HOT_MESSAGES_PER_ROOM per room
+  messageSeq: number; // server-assigned monotonic sequence for reliable delivery
+  onlineUsers: Map<string, OnlineUser>;
+  deviceRegistry: Map<string, WireDevice>;
+  // Pending key update envelopes per-user (delivered via heartbeat)
+  keyUpdates: Map<string, KeyUpdate[]>;
+  // Last registered identity keys per user (list_identity_keys)
+  identityKeys: Map<string, ServerIdentityKeys>;
+  rooms: Map<string, ServerRoom>;
+  // Encrypted file transfers (metadata + chunks)
+  fileTransfers: Map<string, ServerFileTransfer>;
+  // Password accounts by id, and login sessions by token hash
+  accounts: Map<string, ServerAccount>;
+  sessions: Map<string, ServerSession>;
+  // Invites to private rooms by token hash (create_invite, join_room)
+  roomInvites: Map<string, ServerRoomInvite>;
+  // Delivery/read positions by user id
+  receipts: Map<string, Receipt>;
+  // Typing signals: room id (GLOBAL_ROOM_ID for global) -> user id -> expiry.
+  // Ephemeral: never persisted nor sequenced.
+  typing: Map<string, Map<string, number>>;
+  // Message ids whose send is being stored right now (a concurrent retry waits)
+  sendsInFlight: Set<string>;
+  // Seqs taken by sends that are not in messageHistory yet (see settledSeq)
+  seqsInFlight: Set<number>;
+  // upload_chunk requests being stored, per account (see MAX_CHUNK_UPLOADS)
+  chunkUploads: Map<string, number>;
+}
+
+// Highest seq below which every message is in messageHistory. Clients resume
+// from the seq they are given, so a seq still being stored must not be passed.
+export function settledSeq(state: ServerState) {
+  if (state.seqsInFlight.size === 0) return state.messageSeq;
+  return Math.min(...state.seqsInFlight) - 1;
+}
+
+// Recent messages kept in memory per room; older ones are paged from storage
+export const HOT_MESSAGES_PER_ROOM = 200;
+
+// Append a message, evicting the oldest ones of its room beyond HOT_MESSAGES_PER_ROOM
+// (so a busy room cannot push other rooms' history out)
+export function rememberMessage(state: ServerState, message: WireMessage) {
+  state.messageHistory.push(message);
+  const inRoom = state.messageHistory.filter(m => m.roomId === message.roomId);
+  if (inRoom.length <= HOT_MESSAGES_PER_ROOM) return;
+  const evicted = new Set(inRoom.slice(0, inRoom.length - HOT_MESSAGES_PER_ROOM));
+  state.messageHistory = state.messageHistory.filter(m => !evicted.has(m));
+}
+
+const STATE_KEY = '__lanhubServerState';
+
+export const getServerState = (): ServerState => {
+  const g = globalThis as typeof globalThis & { [STATE_KEY]?: ServerState };
+  if (!g[STATE_KEY]) {
+    g[STATE_KEY] = {
+      messageHistory: [],
+      messageSeq: 0,
+      onlineUsers: new Map(),
+      deviceRegistry: new Map(),
+      keyUpdates: new Map(),
+      identityKeys: new Map(),
+      rooms: new Map(),
+      fileTransfers: new Map(),
+      accounts: new Map(),
+      sessions: new Map(),
+      roomInvites: new Map(),
+      receipts: new Map(),
+      typing: new Map(),
+      sendsInFlight: new Set(),
+      seqsInFlight: new Set(),
+      chunkUploads: new Map(),
+    };
+  }
+  return g[STATE_KEY]!;
+};
@@ -0,0 +1,43 @@
+/*
+  Reply threads.
+  - replyTo: the message being answered (shown as a quote preview).
+  - threadRootId: first message of the thread; every reply in it carries the
+    same root, so a thread is one flat list ordered by seq.
+  Encrypted messages carry both inside the ciphertext (bodyFormat 'json'),
+  plaintext ones as wire fields.
+*/
+import type { Message } from '@/types';
+
+// What an encrypted message with bodyFormat 'json' decrypts to
+export interface MessageBody {
+  content: string;
+  replyTo?: string;
+  threadRootId?: string;
+  mentions?: string[]; // see src/lib/mentions.ts
+}
+
+export const encodeMessageBody = (body: MessageBody): string => JSON.stringify(body);
+
+// Older messages (no bodyFormat) encrypt the bare content string
+export function decodeMessageBody(plain: string, bodyFormat?: 'json'): MessageBody {
+  if (bodyFormat !== 'json') return { content: plain };
+  const body = JSON.parse(plain) as Partial<MessageBody>;
+  return {
+    content: typeof body.content === 'string' ? body.content : '',
+    replyTo: typeof body.replyTo === 'string' ? body.replyTo : undefined,
+    threadRootId: typeof body.threadRootId === 'string' ? body.threadRootId : undefined,
+    mentions: Array.isArray(body.mentions) ? body.mentions.filter((m): m is string => typeof m === 'string') : undefined,
+  };
+}
+
+// Root of the thread a reply to `parent` joins
+export const threadRootOf = (parent: Pick<Message, 'id' | 'threadRootId'>) => parent.threadRootId ?? parent.id;
+
+// Replies per thread root, from the messages loaded so far
+export function countThreadReplies(messages: Message[]): Map<string, number> {
+  const counts = new Map<string, number>();
+  for (const m of messages) {
+    if (m.threadRootId) counts.set(m.threadRootId, (counts.get(m.threadRootId) ?? 0) + 1);
+  }
+  return counts;
+}
@@ -0,0 +1,155 @@
+/*
+  Windowed chunk pipeline shared by uploads and downloads.
+  - Up to a window of chunk requests are in flight; each finished one makes room
+    for the next index at once (a sliding window, not fixed batches).
+  - The window adapts: it grows by one after a window's worth of quick
+    successes, and halves when the server pushes back (429, 5xx) or latency
+    climbs well above the best seen. It never exceeds the configured maximum.
+  - Back-pressure: a chunk keeps its slot while it is stored or encrypted
+    (slow disks slow the window down) and while it waits to be retried.
+  - Chunk size is fixed per upload (indices are part of the manifest) and
+    picked from the throughput measured on the previous upload.
+*/
+import { MAX_CHUNK_SIZE, MAX_CHUNK_UPLOADS } from '@/lib/protocol';
+
+export const MIN_CHUNK_SIZE = 64 * 1024;
+// Chunk requests in flight per transfer, unless lanhub_transfer_concurrency says otherwise
+export const DEFAULT_CONCURRENCY = 6;
+
+const INITIAL_WINDOW = 2;
+const MAX_RETRIES = 6;
+// A chunk slower than this multiple of the best latency (plus slack) shrinks the window
+const LATENCY_FACTOR = 3;
+const LATENCY_SLACK_MS = 50;
+// New upload chunks aim at about this much transfer time each
+const TARGET_CHUNK_MS = 250;
+const RATE_SPAN_MS = 3000;
+
+// done: transferred; skip: not possible yet (not uploaded, no key), left for
+// a later run; retry: pushed back, tried again; fail: refused, the run stops
+export type ChunkOutcome = 'done' | 'skip' | 'retry' | 'fail';
+
+export interface TransferStats {
+  bytesPerSecond: number;
+  etaSeconds: number | null; // null until there is a rate to go by
+}
+
+export function transferConcurrency(): number {
+  const configured = Number(typeof window !== 'undefined' ? localStorage.getItem('lanhub_transfer_concurrency') : NaN);
+  if (!Number.isInteger(configured) || configured < 1) return DEFAULT_CONCURRENCY;
+  return Math.min(configured, MAX_CHUNK_UPLOADS);
+}
+
+// Power of two from MIN_CHUNK_SIZE to MAX_CHUNK_SIZE, leaving at least four
+// chunks per file so the window has something to overlap
+export function pickChunkSize(fileSize: number, bytesPerSecond?: number): number {
+  const target = bytesPerSecond ? (bytesPerSecond * TARGET_CHUNK_MS) / 1000 : MIN_CHUNK_SIZE;
+  let size = MIN_CHUNK_SIZE;
+  while (size * 2 <= Math.min(target, MAX_CHUNK_SIZE) && fileSize / (size * 2) >= 4) size *= 2;
+  return size;
+}
+
+const retryDelay = (attempt: number) => Math.min(4000, 250 * 2 ** (attempt - 1));
+
+// Run `task` over `indices` in order. Resolves to true once every index was
+// done or skipped, false when one failed (or ran out of retries) or the run
+// was cancelled; rejects with the first error a task throws. Either way it
+// settles only after the chunks in flight finished.
+export function runPipeline(
+  indices: number[],
+  task: (index: number) => Promise<ChunkOutcome>,
+  { maxWindow, isCancelled }: { maxWindow: number; isCancelled?: () => boolean },
+): Promise<boolean> {
+  const queue = [...indices];
+  const retries = new Map<number, number>();
+  let windowSize = Math.min(INITIAL_WINDOW, maxWindow);
+  let inFlight = 0; // includes chunks waiting out a retry delay
+  let streak = 0;
+  let bestLatency = Infinity;
+  let failed = false;
+  let thrown = false;
+  let error: unknown;
+
+  const shrink = () => {
+    windowSize = Math.max(1, Math.floor(windowSize / 2));
+    streak = 0;
+  };
+
+  return new Promise((resolve, reject) => {
+    const pump = () => {
+      const halted = failed || thrown || !!isCancelled?.();
+      while (!halted && inFlight < windowSize && queue.length > 0) launch(queue.shift()!);
+      if (inFlight > 0 || (!halted && queue.length > 0)) return;
+      if (thrown) reject(error);
+      else resolve(!halted);
+    };
+
+    const launch = (index: number) => {
+      inFlight++;
+      const started = Date.now();
+      task(index).then(outcome => {
+        if (outcome === 'retry') {
+          shrink();
+          const attempt = (retries.get(index) ?? 0) + 1;
+          retries.set(index, attempt);
+          if (attempt > MAX_RETRIES) {
+            failed = true;
+            inFlight--;
+            pump();
+            return;
+          }
+          setTimeout(() => {
+            inFlight--;
+            queue.unshift(index);
+            pump();
+          }, retryDelay(attempt));
+          return;
+        }
+        if (outcome === 'fail') failed = true;
+        if (outcome === 'done') {
+          const latency = Date.now() - started;
+          bestLatency = Math.min(bestLatency, latency);
+          if (latency > LATENCY_FACTOR * bestLatency + LATENCY_SLACK_MS) {
+            shrink();
+          } else if (++streak >= windowSize && windowSize < maxWindow) {
+            windowSize++;
+            streak = 0;
+          }
+        }
+        inFlight--;
+        pump();
+      }, e => {
+        if (!thrown) {
+          thrown = true;
+          error = e;
+        }
+        inFlight--;
+        pump();
+      });
+    };
+
+    pump();
+  });
+}
+
+// Bytes per second over the last few seconds of a transfer
+export function createRateMeter() {
+  const startedAt = Date.now();
+  let samples: { at: number; bytes: number }[] = [];
+  const prune = (now: number) => {
+    samples = samples.filter(s => now - s.at <= RATE_SPAN_MS);
+  };
+  return {
+    add(bytes: number) {
+      const now = Date.now();
+      samples.push({ at: now, bytes });
+      prune(now);
+    },
+    bytesPerSecond(): number {
+      const now = Date.now();
+      prune(now);
+      const span = Math.min(RATE_SPAN_MS, Math.max(250, now - startedAt));
+      return (samples.reduce((sum, s) => sum + s.bytes, 0) * 1000) / span;
+    },
+  };
+}
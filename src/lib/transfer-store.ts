@@ -0,0 +1,49 @@
+/*
+  Received file chunks, kept in IndexedDB (one database per account) so a
+  download survives reloads: after one, only the chunks missing here are
+  fetched, and completed files are assembled again from the stored chunks.
+  Chunks are stored decrypted, like the assembled file offered for download.
+  They are dropped when the transfer is removed from the list.
+*/
+import { completed, openDatabase, requested } from '@/lib/idb';
+
+const DB_VERSION = 1;
+const STORE = 'chunks';
+
+interface StoredChunk {
+  transferId: string;
+  index: number;
+  data: Uint8Array;
+}
+
+const openStore = (userId: string) =>
+  openDatabase(`lanhub_transfers_${userId}`, DB_VERSION, db => {
+    db.createObjectStore(STORE, { keyPath: ['transferId', 'index'] });
+  });
+
+// Keys [transferId, index] of one transfer, in index order
+const chunkRange = (transferId: string) => IDBKeyRange.bound([transferId, 0], [transferId, Infinity]);
+
+export async function saveChunk(userId: string, transferId: string, index: number, data: Uint8Array) {
+  const tx = (await openStore(userId)).transaction(STORE, 'readwrite');
+  tx.objectStore(STORE).put({ transferId, index, data } satisfies StoredChunk);
+  await completed(tx);
+}
+
+export async function storedChunkIndices(userId: string, transferId: string): Promise<number[]> {
+  const tx = (await openStore(userId)).transaction(STORE, 'readonly');
+  const keys = await requested(tx.objectStore(STORE).getAllKeys(chunkRange(transferId)));
+  return keys.map(key => (key as [string, number])[1]);
+}
+
+export async function loadChunks(userId: string, transferId: string): Promise<Map<number, Uint8Array>> {
+  const tx = (await openStore(userId)).transaction(STORE, 'readonly');
+  const chunks: StoredChunk[] = await requested(tx.objectStore(STORE).getAll(chunkRange(transferId)));
+  return new Map(chunks.map(c => [c.index, c.data]));
+}
+
+export async function deleteChunks(userId: string, transferId: string) {
+  const tx = (await openStore(userId)).transaction(STORE, 'readwrite');
+  tx.objectStore(STORE).delete(chunkRange(transferId));
+  await completed(tx);
+}
@@ -6,6 +6,8 @@ export interface User {
   avatar?: string;
   status: 'online' | 'away' | 'offline';
   lastSeen: number;
+  publicKeyJwk?: JsonWebKey; // ECDH identity key as reported by the server
+  signingKeyJwk?: JsonWebKey; // ECDSA key verifying the user's signatures
 }
 
 export interface Device {
@@ -25,13 +27,38 @@ export interface Message {
   content: string; // plaintext or base64 ciphertext when enc=true
   timestamp: number;
   roomId?: string;
-  type: 'text' | 'file' | 'system';
+  // reaction: content is a ReactionEvent (src/lib/reactions.ts); edit/delete: see src/lib/edits.ts
+  type: 'text' | 'file' | 'system' | 'reaction' | 'edit' | 'delete';
   // Server-assigned, monotonic sequence used for reliable delivery
   seq?: number;
   // Encryption metadata (optional)
   enc?: boolean; // true if content is encrypted
   nonce?: string; // base64 AES-GCM nonce
   alg?: 'aes-256-gcm';
+  keyVersion?: number; // key epoch of the room (per roomId) used to encrypt
+  chainId?: string; // sender-key chain that encrypted the message (instead of the room key)
+  chainIndex?: number; // message index within that chain
+  bodyFormat?: 'json'; // encrypted content is a MessageBody (src/lib/threads.ts)
+  replyTo?: string; // message this one answers
+  threadRootId?: string; // first message of the thread
+  mentions?: string[]; // user ids addressed with @username (encrypted body only)
+  sig?: string; // base64 ECDSA signature by the sender (see signedMessageBytes)
+  sigValid?: boolean; // local only: sig checked against the sender's signing key
+  targetId?: string; // edit/delete: the message they change
+  deleted?: boolean; // tombstone: content (and edit history) removed
+  editedAt?: number; // local only: time of the edit shown as content
+  editorId?: string; // local only: who made that edit (a room admin when not senderId)
+  editorName?: string;
+  edits?: EditVersion[]; // local only: earlier versions, oldest first
+}
+
+export interface EditVersion {
+  id: string; // message or edit event the version came from
+  content: string;
+  timestamp: number;
+  editorId: string; // author of this version; sigValid is checked against their key
+  editorName: string;
+  sigValid?: boolean;
 }
 
 export interface FileTransfer {
@@ -43,10 +70,17 @@ export interface FileTransfer {
   receiverId?: string;
   recipients?: string[]; // recipients for this transfer (empty/undefined = broadcast)
   progress: number;
-  status: 'pending' | 'transferring' | 'completed' | 'failed' | 'cancelled';
+  // paused: our upload stopped with the page or the connection; resumable
+  status: 'pending' | 'transferring' | 'paused' | 'completed' | 'failed' | 'cancelled';
   timestamp: number;
   downloadUrl?: string; // created on receiver when file is assembled
   totalChunks?: number; // known on sender/receiver
+  roomId?: string; // room whose key encrypts the chunks (undefined = global)
+  keyVersion?: number;
+  signature?: string; // sender's ECDSA signature over the manifest
+  signatureValid?: boolean; // local only (receiver side)
+  fileLastModified?: number; // local only (sender side): tells a re-selected file apart when resuming
+  chunkSize?: number; // local only (sender side): bytes per chunk, 64 KiB if unset
 }
 
 export interface ChatRoom {
@@ -57,8 +91,15 @@ export interface ChatRoom {
   createdAt: number;
   isPublic: boolean;
   admins?: string[]; // optional list of admins (owner is implicitly admin)
+  keyVersion?: number; // latest key epoch claimed via rotation
+  rekeyNeeded?: boolean; // membership shrank; owner/admin must rotate the key
+  isDirect?: boolean; // 1:1 direct messages; keyed by ECDH between the two members
 }
 
+// Trust in another user's identity key, from our point of view:
+// 'changed' means the key differs from the one we verified (possible MITM)
+export type TrustState = 'verified' | 'unverified' | 'changed' | 'no_key';
+
 export interface ActivityLog {
   id: string;
   type: 'login' | 'logout' | 'file_sent' | 'file_received' | 'message' | 'device_connected';